@@ -0,0 +1,165 @@
+import { useEffect, useRef } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, CheckCircle2, XCircle, Scale } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ExpertEvent, ExpertConsensus } from "@/lib/api";
+
+export interface ExpertLane {
+  // providerId, plus the sample index when experts run several samples
+  key: string;
+  providerId: string;
+  providerName: string;
+  model: string;
+  status: "running" | "complete" | "error";
+  attempt: number;
+  // Latest lifecycle message, e.g. "Attempt 2/5: Generating solution..."
+  statusLine: string;
+  // Tokens streamed for the current attempt
+  text: string;
+}
+
+export interface ExpertRunState {
+  lanes: ExpertLane[];
+  consensus: { status: "running" | "complete"; strategy?: string; result?: ExpertConsensus } | null;
+}
+
+export const EMPTY_EXPERT_RUN: ExpertRunState = { lanes: [], consensus: null };
+
+function laneKey(providerId: string, sample?: number): string {
+  return sample === undefined ? providerId : `${providerId}#${sample}`;
+}
+
+export function applyExpertEvent(state: ExpertRunState, event: ExpertEvent): ExpertRunState {
+  if (event.type === "consensus_started") {
+    return { ...state, consensus: { status: "running", strategy: event.content } };
+  }
+  if (event.type === "consensus_complete") {
+    return { ...state, consensus: { ...state.consensus, status: "complete", result: event.consensus } };
+  }
+  if (!event.providerId) return state;
+
+  const key = laneKey(event.providerId, event.sample);
+  const existing = state.lanes.find(l => l.key === key);
+  const lane: ExpertLane = existing ?? {
+    key,
+    providerId: event.providerId,
+    providerName: event.providerName || event.providerId,
+    model: event.model || "",
+    status: "running",
+    attempt: 0,
+    statusLine: "",
+    text: "",
+  };
+
+  let next: ExpertLane;
+  switch (event.type) {
+    case "expert_started":
+      next = { ...lane, status: "running", statusLine: event.content || "Starting..." };
+      break;
+    case "expert_progress": {
+      const attempt = event.attempt ?? lane.attempt;
+      // Late tokens from an attempt that already timed out
+      if (attempt < lane.attempt) return state;
+      const text = attempt !== lane.attempt ? "" : lane.text;
+      next = {
+        ...lane,
+        attempt,
+        text: event.delta ? text + event.delta : text,
+        statusLine: event.content || lane.statusLine,
+      };
+      break;
+    }
+    case "expert_complete":
+      next = { ...lane, status: "complete", statusLine: `Solved in ${event.result?.iterations ?? lane.attempt} attempt(s)` };
+      break;
+    case "expert_error":
+      next = { ...lane, status: "error", statusLine: event.content || "Failed" };
+      break;
+    default:
+      return state;
+  }
+
+  return {
+    ...state,
+    lanes: existing
+      ? state.lanes.map(l => (l.key === next.key ? next : l))
+      : [...state.lanes, next],
+  };
+}
+
+function LaneCard({ lane, winning }: { lane: ExpertLane; winning: boolean }) {
+  const textRef = useRef<HTMLPreElement>(null);
+
+  useEffect(() => {
+    if (textRef.current) textRef.current.scrollTop = textRef.current.scrollHeight;
+  }, [lane.text]);
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border bg-white p-3 shadow-sm min-w-0 flex flex-col gap-2",
+        winning ? "border-green-400 ring-1 ring-green-300" : "border-neutral-200"
+      )}
+      data-testid={`expert-lane-${lane.key}`}
+    >
+      <div className="flex items-center gap-2 min-w-0">
+        {lane.status === "running" && <Loader2 className="w-3.5 h-3.5 animate-spin text-indigo-500 shrink-0" />}
+        {lane.status === "complete" && <CheckCircle2 className="w-3.5 h-3.5 text-green-600 shrink-0" />}
+        {lane.status === "error" && <XCircle className="w-3.5 h-3.5 text-red-500 shrink-0" />}
+        <span className="text-sm font-medium text-neutral-800 truncate">{lane.providerName}</span>
+        <Badge variant="outline" className="text-[10px] font-mono truncate max-w-[50%]">{lane.model}</Badge>
+        {lane.attempt > 0 && (
+          <span className="ml-auto text-[11px] text-neutral-400 shrink-0">#{lane.attempt}</span>
+        )}
+      </div>
+      <p className="text-xs text-neutral-500 truncate" title={lane.statusLine}>{lane.statusLine}</p>
+      {lane.text && (
+        <pre
+          ref={textRef}
+          className="max-h-48 overflow-y-auto whitespace-pre-wrap break-words rounded bg-neutral-50 p-2 text-[11px] leading-relaxed text-neutral-700 font-mono"
+        >
+          {lane.text}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+// One live lane per expert while a multi-model run streams, followed by the
+// consensus step once the experts are done.
+export function ExpertLanes({ state }: { state: ExpertRunState }) {
+  if (state.lanes.length === 0) return null;
+
+  const winners = new Set(
+    state.consensus?.result?.winningGroup.responses.map(r => laneKey(r.providerId, r.sample)) ?? []
+  );
+  const consensus = state.consensus;
+
+  return (
+    <div className="space-y-3" data-testid="expert-lanes">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {state.lanes.map(lane => (
+          <LaneCard key={lane.key} lane={lane} winning={winners.has(lane.key)} />
+        ))}
+      </div>
+      {consensus && (
+        <div className="flex items-center gap-2 rounded-lg border border-indigo-200 bg-indigo-50 px-3 py-2 text-xs text-indigo-800">
+          {consensus.status === "running"
+            ? <Loader2 className="w-3.5 h-3.5 animate-spin shrink-0" />
+            : <Scale className="w-3.5 h-3.5 shrink-0" />}
+          {consensus.status === "running" || !consensus.result ? (
+            <span>Running {consensus.strategy ?? ""} consensus...</span>
+          ) : (
+            <span>
+              <span className="font-medium">
+                {Math.round(consensus.result.agreement * 100)}% agreement
+              </span>
+              {" · "}
+              {consensus.result.summary}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -6,6 +6,8 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { 
   Settings2, 
@@ -15,11 +17,17 @@ import {
   Plus,
   Trash2,
   Link,
-  GitBranch
+  GitBranch,
+  RefreshCw,
+  CornerDownRight,
+  X,
+  SlidersHorizontal,
+  Wallet,
+  Activity
 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
-import { updateSettings, type ConsensusMode } from "@/lib/api";
-import type { ProviderConfig } from "@/lib/api";
+import { updateSettings, discoverLocalModels, testProviderConnection, fetchProviderHealth, type ConsensusMode } from "@/lib/api";
+import type { ProviderConfig, LocalModelInfo, FallbackTarget, SamplingParams, ReasoningEffort, RateLimits, ExpertTimeouts, SpendingLimits, ProviderHealth, SimilarityBackendName, SimilarityThresholds } from "@/lib/api";
 
 interface Model {
   id: string;
@@ -38,6 +46,11 @@ const PROVIDER_MODELS: Record<string, Model[]> = {
     { id: "claude-sonnet-4-5", name: "Claude Sonnet 4.5", cost: "$3.00/1M" },
     { id: "claude-haiku-4-5", name: "Claude Haiku 4.5", cost: "$0.25/1M" },
   ],
+  gemini: [
+    { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", cost: "$1.25/1M" },
+    { id: "gemini-2.5-flash", name: "Gemini 2.5 Flash", cost: "$0.30/1M" },
+    { id: "gemini-2.5-flash-lite", name: "Gemini 2.5 Flash Lite", cost: "$0.10/1M" },
+  ],
   openrouter: [
     { id: "meta-llama/llama-3.3-70b-instruct", name: "Llama 3.3 70B", cost: "$0.35/1M" },
     { id: "meta-llama/llama-3.1-405b-instruct", name: "Llama 3.1 405B", cost: "$2.00/1M" },
@@ -52,27 +65,165 @@ const PROVIDER_MODELS: Record<string, Model[]> = {
   ]
 };
 
+const VENDOR_NAMES: Record<string, string> = {
+  openai: "OpenAI",
+  anthropic: "Anthropic",
+  gemini: "Google Gemini",
+  openrouter: "OpenRouter",
+};
+
+// Built-in providers are keyed by their vendor id; experts and custom
+// providers carry the vendor in `kind`.
+function providerVendor(provider: ProviderConfig): string {
+  return provider.kind ?? provider.id;
+}
+
+function isExpert(provider: ProviderConfig): boolean {
+  return !provider.isCustom && !!provider.kind && provider.kind in PROVIDER_MODELS;
+}
+
+function expertId(vendor: string, model: string, existing: ProviderConfig[]): string {
+  const base = `${vendor}-${model.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")}`;
+  let id = base;
+  for (let n = 2; existing.some(p => p.id === id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
 interface SettingsTabProps {
   providers: ProviderConfig[];
   onProvidersChange: (providers: ProviderConfig[]) => void;
   consensusMode: ConsensusMode;
   onConsensusModeChange: (mode: ConsensusMode) => void;
+  spendingLimits?: SpendingLimits;
+  onSpendingLimitsChange?: (limits: SpendingLimits) => void;
+  consensusQuorum?: number | null;
+  onConsensusQuorumChange?: (quorum: number | null) => void;
+  refinementRounds?: number;
+  onRefinementRoundsChange?: (rounds: number) => void;
+  judgeProviderId?: string | null;
+  onJudgeProviderIdChange?: (providerId: string | null) => void;
+  similarityBackend?: SimilarityBackendName;
+  onSimilarityBackendChange?: (backend: SimilarityBackendName) => void;
+  similarityThresholds?: SimilarityThresholds;
+  onSimilarityThresholdsChange?: (thresholds: SimilarityThresholds) => void;
 }
 
+const SPENDING_LIMITS: { key: keyof SpendingLimits; label: string; description: string }[] = [
+  { key: "perRequest", label: "Per request", description: "Scaled by the Compute slider in Chat (10% at the lowest setting); no cap if empty" },
+  { key: "perConversation", label: "Per conversation", description: "Total across every message in one conversation" },
+  { key: "perDay", label: "Per day", description: "Total across all conversations since midnight" },
+];
+
+const REASONING_EFFORTS: ReasoningEffort[] = ["minimal", "low", "medium", "high"];
+
+// Mirrors DEFAULT_EXPERT_TIMEOUTS in server/llm/timeouts.ts.
+const EXPERT_TIMEOUTS: { key: keyof ExpertTimeouts; label: string; defaultSeconds: number }[] = [
+  { key: "attemptSeconds", label: "Attempt", defaultSeconds: 300 },
+  { key: "expertSeconds", label: "Expert", defaultSeconds: 900 },
+  { key: "stallSeconds", label: "Stall", defaultSeconds: 90 },
+];
+
 const CONSENSUS_MODES: { id: ConsensusMode; name: string; description: string }[] = [
   { id: "auto", name: "Auto", description: "Automatically select based on task type" },
   { id: "exact", name: "Exact Match", description: "Group identical answers, best for structured tasks" },
   { id: "semantic", name: "Semantic", description: "Cluster similar answers, best for open-ended tasks" },
+  { id: "judge", name: "LLM Judge", description: "A judge model scores the distinct answers against a rubric and picks the best" },
+  { id: "synthesize", name: "Synthesize", description: "A synthesizer model merges all answers, attributing claims and noting disagreements" },
 ];
 
-export default function SettingsTab({ providers, onProvidersChange, consensusMode, onConsensusModeChange }: SettingsTabProps) {
+// Share of experts that must agree before the remaining ones are stopped;
+// null is the server default, a strict majority.
+const QUORUM_OPTIONS: { value: number | null; name: string; description: string }[] = [
+  { value: null, name: "Majority", description: "Stop the remaining experts once more than half agree" },
+  { value: 0.67, name: "Two-thirds", description: "Stop the remaining experts once two-thirds agree" },
+  { value: 1, name: "All experts", description: "Always wait for every expert to finish" },
+];
+
+const SIMILARITY_BACKENDS: { value: SimilarityBackendName; name: string; defaultThreshold: number; description: string }[] = [
+  { value: "tfidf", name: "Local (TF-IDF)", defaultThreshold: 0.4, description: "Compares word overlap locally, without extra calls" },
+  { value: "embeddings", name: "OpenAI embeddings", defaultThreshold: 0.85, description: "Compares meaning with OpenAI embeddings; one extra call per answer, not counted against spending limits. Falls back to TF-IDF without an enabled OpenAI provider" },
+];
+
+const REFINEMENT_OPTIONS: { rounds: number; name: string }[] = [
+  { rounds: 0, name: "Off (parallel consensus)" },
+  { rounds: 1, name: "1 round" },
+  { rounds: 2, name: "2 rounds" },
+  { rounds: 3, name: "3 rounds" },
+];
+
+// The server only re-probes providers whose last check is older than 5 minutes.
+const HEALTH_POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+function describeHealth(health: ProviderHealth): string {
+  if (health.ok) {
+    return `${health.latencyMs}ms${health.streaming ? " · streaming" : ""}${health.vision ? " · vision" : ""}`;
+  }
+  return health.modelFound === false ? "Model not found" : "Unreachable";
+}
+
+function HealthBadge({ health }: { health: ProviderHealth }) {
+  return (
+    <Badge
+      variant="outline"
+      className={`text-[10px] ${health.ok ? "bg-emerald-50 text-emerald-700 border-emerald-200" : "bg-red-50 text-red-700 border-red-200"}`}
+      title={health.error ? `${health.error} (checked ${new Date(health.checkedAt).toLocaleTimeString()})` : `Checked ${new Date(health.checkedAt).toLocaleTimeString()}`}
+      data-testid={`badge-health-${health.providerId}`}
+    >
+      <Activity className="w-3 h-3 mr-1" />
+      {describeHealth(health)}
+    </Badge>
+  );
+}
+
+export default function SettingsTab({ providers, onProvidersChange, consensusMode, onConsensusModeChange, spendingLimits = {}, onSpendingLimitsChange, consensusQuorum, onConsensusQuorumChange, refinementRounds, onRefinementRoundsChange, judgeProviderId, onJudgeProviderIdChange, similarityBackend = "tfidf", onSimilarityBackendChange, similarityThresholds = {}, onSimilarityThresholdsChange }: SettingsTabProps) {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [newProvider, setNewProvider] = useState({
+    kind: "custom" as "custom" | "local",
     name: "",
     baseUrl: "",
     apiKey: "",
     model: ""
   });
+  const [localModels, setLocalModels] = useState<LocalModelInfo[]>([]);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [health, setHealth] = useState<Record<string, ProviderHealth>>({});
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [newProviderTest, setNewProviderTest] = useState<ProviderHealth | null>(null);
+  const [isExpertDialogOpen, setIsExpertDialogOpen] = useState(false);
+  const [newExpert, setNewExpert] = useState({ vendor: "openai", model: "", name: "" });
+
+  useEffect(() => {
+    const loadHealth = async () => {
+      try {
+        const statuses = await fetchProviderHealth();
+        setHealth(prev => ({ ...prev, ...Object.fromEntries(statuses.map(s => [s.providerId, s])) }));
+      } catch (error) {
+        console.error("Failed to load provider health:", error);
+      }
+    };
+    loadHealth();
+    const interval = setInterval(loadHealth, HEALTH_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleTestProvider = async (provider: ProviderConfig) => {
+    setTestingId(provider.id);
+    try {
+      const result = await testProviderConnection(provider);
+      setHealth(prev => ({ ...prev, [provider.id]: result }));
+      toast({
+        title: result.ok ? "Connection OK" : "Connection Failed",
+        description: result.ok ? `${provider.name} answered in ${result.latencyMs}ms.` : result.error,
+        variant: result.ok ? "default" : "destructive"
+      });
+    } catch (error) {
+      console.error("Failed to test provider:", error);
+    } finally {
+      setTestingId(null);
+    }
+  };
 
   const handleToggleProvider = (id: string, checked: boolean) => {
     const updated = providers.map(p => 
@@ -95,6 +246,168 @@ export default function SettingsTab({ providers, onProvidersChange, consensusMod
     onProvidersChange(updated);
   };
 
+  const handleAddFallback = (providerId: string, value: string) => {
+    const [targetId, model] = value.split("::");
+    const target: FallbackTarget = {
+      id: targetId,
+      name: providers.find(p => p.id === targetId)?.name,
+      model
+    };
+    const updated = providers.map(p =>
+      p.id === providerId ? { ...p, fallbacks: [...(p.fallbacks || []), target] } : p
+    );
+    onProvidersChange(updated);
+  };
+
+  const handleRemoveFallback = (providerId: string, index: number) => {
+    const updated = providers.map(p =>
+      p.id === providerId ? { ...p, fallbacks: (p.fallbacks || []).filter((_, i) => i !== index) } : p
+    );
+    onProvidersChange(updated);
+  };
+
+  const handleSamplingChange = (providerId: string, key: keyof SamplingParams, value: string) => {
+    const updated = providers.map(p => {
+      if (p.id !== providerId) return p;
+      const sampling: SamplingParams = { ...p.sampling };
+      if (key === "stopSequences") {
+        const sequences = value.split(",").map(s => s.trim()).filter(Boolean);
+        sampling.stopSequences = sequences.length > 0 ? sequences : undefined;
+      } else if (key === "reasoningEffort") {
+        sampling.reasoningEffort = value === "default" ? undefined : value as ReasoningEffort;
+      } else {
+        const parsed = parseFloat(value);
+        sampling[key] = value === "" || isNaN(parsed) ? undefined : parsed;
+      }
+      return { ...p, sampling };
+    });
+    onProvidersChange(updated);
+  };
+
+  const handleRateLimitChange = (providerId: string, key: keyof RateLimits, value: string) => {
+    const parsed = parseInt(value, 10);
+    const updated = providers.map(p =>
+      p.id === providerId
+        ? { ...p, rateLimits: { ...p.rateLimits, [key]: isNaN(parsed) || parsed <= 0 ? undefined : parsed } }
+        : p
+    );
+    onProvidersChange(updated);
+  };
+
+  const handleTimeoutChange = (providerId: string, key: keyof ExpertTimeouts, value: string) => {
+    const parsed = parseInt(value, 10);
+    const updated = providers.map(p =>
+      p.id === providerId
+        ? { ...p, timeouts: { ...p.timeouts, [key]: isNaN(parsed) || parsed < 0 ? undefined : parsed } }
+        : p
+    );
+    onProvidersChange(updated);
+  };
+
+  const handleSimilarityThresholdChange = (value: string) => {
+    const parsed = parseFloat(value);
+    const next = { ...similarityThresholds };
+    if (isNaN(parsed) || parsed < 0 || parsed > 1) delete next[similarityBackend];
+    else next[similarityBackend] = parsed;
+    onSimilarityThresholdsChange?.(next);
+  };
+
+  const handleSpendingLimitChange = (key: keyof SpendingLimits, value: string) => {
+    const parsed = parseFloat(value);
+    onSpendingLimitsChange?.({ ...spendingLimits, [key]: isNaN(parsed) || parsed < 0 ? undefined : parsed });
+  };
+
+  const handlePromptPrefixChange = (providerId: string, promptPrefix: string) => {
+    const updated = providers.map(p =>
+      p.id === providerId ? { ...p, promptPrefix: promptPrefix || undefined } : p
+    );
+    onProvidersChange(updated);
+  };
+
+  const handleNewProviderKindChange = (kind: "custom" | "local") => {
+    setNewProvider({
+      ...newProvider,
+      kind,
+      baseUrl: kind === "local" && !newProvider.baseUrl ? "http://localhost:11434" : newProvider.baseUrl,
+      model: ""
+    });
+    setLocalModels([]);
+  };
+
+  const handleDiscoverModels = async () => {
+    if (!newProvider.baseUrl) {
+      toast({
+        title: "Missing URL",
+        description: "Enter the local server URL before discovering models.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsDiscovering(true);
+    try {
+      const models = await discoverLocalModels(newProvider.baseUrl);
+      setLocalModels(models);
+      if (models.length === 0) {
+        toast({
+          title: "No Models Found",
+          description: "The local server is running but has no models loaded.",
+          variant: "destructive"
+        });
+      } else if (!newProvider.model) {
+        setNewProvider({ ...newProvider, model: models[0].id });
+      }
+    } catch (error) {
+      console.error("Failed to discover local models:", error);
+      setLocalModels([]);
+      toast({
+        title: "Discovery Failed",
+        description: "Could not reach an Ollama or llama.cpp server at that URL.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsDiscovering(false);
+    }
+  };
+
+  const buildNewProvider = (id: string): ProviderConfig => ({
+    id,
+    name: newProvider.name,
+    enabled: true,
+    model: newProvider.model,
+    kind: newProvider.kind,
+    isCustom: true,
+    baseUrl: newProvider.baseUrl,
+    apiKey: newProvider.apiKey,
+    contextLength: localModels.find(m => m.id === newProvider.model)?.contextLength
+  });
+
+  const handleTestNewProvider = async () => {
+    if (!newProvider.baseUrl || !newProvider.model) {
+      toast({
+        title: "Missing Fields",
+        description: "Enter the API URL and model name before testing.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setTestingId("new");
+    setNewProviderTest(null);
+    try {
+      setNewProviderTest(await testProviderConnection(buildNewProvider(`${newProvider.kind}-test`)));
+    } catch (error) {
+      console.error("Failed to test provider:", error);
+      toast({
+        title: "Test Failed",
+        description: "Could not run the connection test.",
+        variant: "destructive"
+      });
+    } finally {
+      setTestingId(null);
+    }
+  };
+
   const handleAddProvider = () => {
     if (!newProvider.name || !newProvider.baseUrl || !newProvider.model) {
       toast({
@@ -105,19 +418,15 @@ export default function SettingsTab({ providers, onProvidersChange, consensusMod
       return;
     }
 
-    const id = `custom-${Date.now()}`;
-    const customProvider: ProviderConfig = {
-      id,
-      name: newProvider.name,
-      enabled: true,
-      model: newProvider.model,
-      isCustom: true,
-      baseUrl: newProvider.baseUrl,
-      apiKey: newProvider.apiKey
-    };
+    const customProvider = buildNewProvider(`${newProvider.kind}-${Date.now()}`);
 
     onProvidersChange([...providers, customProvider]);
-    setNewProvider({ name: "", baseUrl: "", apiKey: "", model: "" });
+    if (newProviderTest) {
+      setHealth(prev => ({ ...prev, [customProvider.id]: { ...newProviderTest, providerId: customProvider.id } }));
+    }
+    setNewProvider({ kind: "custom", name: "", baseUrl: "", apiKey: "", model: "" });
+    setNewProviderTest(null);
+    setLocalModels([]);
     setIsAddDialogOpen(false);
     
     toast({
@@ -126,9 +435,45 @@ export default function SettingsTab({ providers, onProvidersChange, consensusMod
     });
   };
 
+  const handleAddExpert = () => {
+    const model = PROVIDER_MODELS[newExpert.vendor]?.find(m => m.id === newExpert.model);
+    if (!model) {
+      toast({
+        title: "Missing Fields",
+        description: "Choose a vendor and model for the expert.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Names attribute answers in consensus summaries, so keep them distinct
+    const baseName = newExpert.name.trim() || model.name;
+    let name = baseName;
+    for (let n = 2; providers.some(p => p.name === name); n++) {
+      name = `${baseName} #${n}`;
+    }
+
+    const expert: ProviderConfig = {
+      id: expertId(newExpert.vendor, model.id, providers),
+      name,
+      enabled: true,
+      model: model.id,
+      kind: newExpert.vendor,
+    };
+
+    onProvidersChange([...providers, expert]);
+    setNewExpert({ vendor: newExpert.vendor, model: "", name: "" });
+    setIsExpertDialogOpen(false);
+
+    toast({
+      title: "Expert Added",
+      description: `${expert.name} (${VENDOR_NAMES[newExpert.vendor]}) joins the expert pool.`,
+    });
+  };
+
   const handleDeleteProvider = (id: string) => {
     const provider = providers.find(p => p.id === id);
-    if (provider?.isCustom) {
+    if (provider && (provider.isCustom || isExpert(provider))) {
       onProvidersChange(providers.filter(p => p.id !== id));
       toast({
         title: "Provider Removed",
@@ -139,7 +484,7 @@ export default function SettingsTab({ providers, onProvidersChange, consensusMod
 
   const handleSave = async () => {
     try {
-      await updateSettings(providers, consensusMode);
+      await updateSettings(providers, consensusMode, spendingLimits, consensusQuorum, refinementRounds, judgeProviderId, similarityBackend, similarityThresholds);
       const activeProviders = providers.filter(p => p.enabled);
       const modeLabel = CONSENSUS_MODES.find(m => m.id === consensusMode)?.name || consensusMode;
       toast({
@@ -202,11 +547,33 @@ export default function SettingsTab({ providers, onProvidersChange, consensusMod
                         Active
                       </Badge>
                     )}
-                    {provider.isCustom && (
+                    {provider.isCustom && provider.kind === "local" ? (
+                      <Badge variant="outline" className="bg-sky-50 text-sky-700 border-sky-200 text-[10px]">
+                        Local
+                      </Badge>
+                    ) : provider.isCustom ? (
                       <Badge variant="outline" className="bg-purple-50 text-purple-700 border-purple-200 text-[10px]">
                         Custom
                       </Badge>
+                    ) : isExpert(provider) && (
+                      <Badge variant="outline" className="bg-indigo-50 text-indigo-700 border-indigo-200 text-[10px]">
+                        {VENDOR_NAMES[providerVendor(provider)]} expert
+                      </Badge>
                     )}
+                    {provider.enabled && health[provider.id] && health[provider.id].model === provider.model && (
+                      <HealthBadge health={health[provider.id]} />
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleTestProvider(provider)}
+                      disabled={testingId !== null}
+                      className="h-6 px-2 text-xs text-neutral-500"
+                      data-testid={`button-test-provider-${provider.id}`}
+                    >
+                      <RefreshCw className={`w-3 h-3 mr-1 ${testingId === provider.id ? "animate-spin" : ""}`} />
+                      Test
+                    </Button>
                   </div>
                   
                   <div className="pl-14">
@@ -231,7 +598,7 @@ export default function SettingsTab({ providers, onProvidersChange, consensusMod
                             <SelectValue placeholder="Select model" />
                           </SelectTrigger>
                           <SelectContent className="bg-white border-neutral-200 shadow-lg">
-                            {(PROVIDER_MODELS[provider.id] || []).map((m) => (
+                            {(PROVIDER_MODELS[providerVendor(provider)] || []).map((m) => (
                               <SelectItem key={m.id} value={m.id}>
                                 <div className="flex items-center justify-between w-full gap-4">
                                   <span>{m.name}</span>
@@ -243,17 +610,225 @@ export default function SettingsTab({ providers, onProvidersChange, consensusMod
                         </Select>
                       )}
                     </div>
+                    {provider.enabled && (
+                      <div className="flex items-start gap-4 mt-3">
+                        <Label className="text-xs text-neutral-500 uppercase font-medium min-w-[60px] pt-2">Fallback</Label>
+                        <div className="flex flex-col gap-2">
+                          {(provider.fallbacks || []).map((fallback, index) => (
+                            <div key={`${fallback.id}-${fallback.model}-${index}`} className="flex items-center gap-2 text-xs text-neutral-600" data-testid={`fallback-${provider.id}-${index}`}>
+                              <CornerDownRight className="w-3 h-3 text-neutral-400" />
+                              <span>{fallback.name || fallback.id}</span>
+                              <span className="font-mono text-neutral-400">{fallback.model}</span>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRemoveFallback(provider.id, index)}
+                                className="h-5 w-5 p-0 text-neutral-400 hover:text-red-600"
+                                data-testid={`button-remove-fallback-${provider.id}-${index}`}
+                              >
+                                <X className="w-3 h-3" />
+                              </Button>
+                            </div>
+                          ))}
+                          <Select value="" onValueChange={(val) => handleAddFallback(provider.id, val)}>
+                            <SelectTrigger className="w-[280px] h-8 bg-white text-xs" data-testid={`select-fallback-${provider.id}`}>
+                              <SelectValue placeholder="Add fallback model..." />
+                            </SelectTrigger>
+                            <SelectContent className="bg-white border-neutral-200 shadow-lg">
+                              {Object.entries(PROVIDER_MODELS).flatMap(([vendorId, models]) =>
+                                models.map((m) => (
+                                  <SelectItem key={`${vendorId}::${m.id}`} value={`${vendorId}::${m.id}`}>
+                                    {providers.find(p => p.id === vendorId)?.name || vendorId} · {m.name}
+                                  </SelectItem>
+                                ))
+                              )}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    )}
+                    {provider.enabled && (
+                      <Collapsible className="mt-3">
+                        <CollapsibleTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-xs text-neutral-500 hover:text-neutral-800"
+                            data-testid={`button-sampling-${provider.id}`}
+                          >
+                            <SlidersHorizontal className="w-3 h-3 mr-1" />
+                            Sampling &amp; Limits
+                          </Button>
+                        </CollapsibleTrigger>
+                        <CollapsibleContent className="mt-2 grid gap-3 max-w-[420px]">
+                          <div className="grid grid-cols-3 gap-2">
+                            <div className="grid gap-1">
+                              <Label className="text-[10px] text-neutral-500 uppercase">Temperature</Label>
+                              <Input
+                                type="number"
+                                min={0}
+                                max={2}
+                                step={0.1}
+                                value={provider.sampling?.temperature ?? ""}
+                                onChange={(e) => handleSamplingChange(provider.id, "temperature", e.target.value)}
+                                placeholder="Default"
+                                className="h-8 bg-white text-xs"
+                                data-testid={`input-temperature-${provider.id}`}
+                              />
+                            </div>
+                            <div className="grid gap-1">
+                              <Label className="text-[10px] text-neutral-500 uppercase">Top P</Label>
+                              <Input
+                                type="number"
+                                min={0}
+                                max={1}
+                                step={0.05}
+                                value={provider.sampling?.topP ?? ""}
+                                onChange={(e) => handleSamplingChange(provider.id, "topP", e.target.value)}
+                                placeholder="Default"
+                                className="h-8 bg-white text-xs"
+                                data-testid={`input-top-p-${provider.id}`}
+                              />
+                            </div>
+                            <div className="grid gap-1">
+                              <Label className="text-[10px] text-neutral-500 uppercase">Max Tokens</Label>
+                              <Input
+                                type="number"
+                                min={1}
+                                step={256}
+                                value={provider.sampling?.maxOutputTokens ?? ""}
+                                onChange={(e) => handleSamplingChange(provider.id, "maxOutputTokens", e.target.value)}
+                                placeholder="8192"
+                                className="h-8 bg-white text-xs"
+                                data-testid={`input-max-tokens-${provider.id}`}
+                              />
+                            </div>
+                          </div>
+                          {providerVendor(provider) === "openai" && !provider.isCustom && (
+                            <div className="grid gap-1">
+                              <Label className="text-[10px] text-neutral-500 uppercase">Reasoning Effort</Label>
+                              <Select
+                                value={provider.sampling?.reasoningEffort || "default"}
+                                onValueChange={(val) => handleSamplingChange(provider.id, "reasoningEffort", val)}
+                              >
+                                <SelectTrigger className="h-8 bg-white text-xs" data-testid={`select-reasoning-effort-${provider.id}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-white border-neutral-200 shadow-lg">
+                                  <SelectItem value="default">Model default</SelectItem>
+                                  {REASONING_EFFORTS.map((effort) => (
+                                    <SelectItem key={effort} value={effort} className="capitalize">{effort}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <p className="text-[10px] text-neutral-400">Applies to GPT-5 and o-series models only.</p>
+                            </div>
+                          )}
+                          {providerVendor(provider) === "anthropic" && !provider.isCustom && (
+                            <div className="grid gap-1">
+                              <Label className="text-[10px] text-neutral-500 uppercase">Thinking Budget</Label>
+                              <Input
+                                type="number"
+                                min={1024}
+                                step={1024}
+                                value={provider.sampling?.thinkingBudgetTokens ?? ""}
+                                onChange={(e) => handleSamplingChange(provider.id, "thinkingBudgetTokens", e.target.value)}
+                                placeholder="Off"
+                                className="h-8 bg-white text-xs"
+                                data-testid={`input-thinking-budget-${provider.id}`}
+                              />
+                              <p className="text-[10px] text-neutral-400">Extended thinking tokens (min 1024). Temperature and Top P are ignored while enabled.</p>
+                            </div>
+                          )}
+                          <div className="grid gap-1">
+                            <Label className="text-[10px] text-neutral-500 uppercase">Stop Sequences</Label>
+                            <Input
+                              defaultValue={(provider.sampling?.stopSequences || []).join(", ")}
+                              onBlur={(e) => handleSamplingChange(provider.id, "stopSequences", e.target.value)}
+                              placeholder="Comma-separated, e.g. ###, END"
+                              className="h-8 bg-white text-xs"
+                              data-testid={`input-stop-${provider.id}`}
+                            />
+                          </div>
+                          <div className="grid gap-1">
+                            <Label className="text-[10px] text-neutral-500 uppercase">Prompt Prefix</Label>
+                            <Textarea
+                              value={provider.promptPrefix || ""}
+                              onChange={(e) => handlePromptPrefixChange(provider.id, e.target.value)}
+                              placeholder="Prepended to the system prompt for this expert"
+                              className="min-h-[60px] bg-white text-xs"
+                              data-testid={`input-prompt-prefix-${provider.id}`}
+                            />
+                          </div>
+                          <div className="grid gap-1">
+                            <Label className="text-[10px] text-neutral-500 uppercase">Rate Limits</Label>
+                            <div className="grid grid-cols-3 gap-2">
+                              <Input
+                                type="number"
+                                min={1}
+                                value={provider.rateLimits?.requestsPerMinute ?? ""}
+                                onChange={(e) => handleRateLimitChange(provider.id, "requestsPerMinute", e.target.value)}
+                                placeholder="Requests/min"
+                                className="h-8 bg-white text-xs"
+                                data-testid={`input-rpm-${provider.id}`}
+                              />
+                              <Input
+                                type="number"
+                                min={1}
+                                step={1000}
+                                value={provider.rateLimits?.tokensPerMinute ?? ""}
+                                onChange={(e) => handleRateLimitChange(provider.id, "tokensPerMinute", e.target.value)}
+                                placeholder="Tokens/min"
+                                className="h-8 bg-white text-xs"
+                                data-testid={`input-tpm-${provider.id}`}
+                              />
+                              <Input
+                                type="number"
+                                min={1}
+                                value={provider.rateLimits?.maxConcurrent ?? ""}
+                                onChange={(e) => handleRateLimitChange(provider.id, "maxConcurrent", e.target.value)}
+                                placeholder="Concurrent"
+                                className="h-8 bg-white text-xs"
+                                data-testid={`input-max-concurrent-${provider.id}`}
+                              />
+                            </div>
+                            <p className="text-[10px] text-neutral-400">Shared by all requests to this model; excess calls wait in a queue. Leave empty for no limit.</p>
+                          </div>
+                          <div className="grid gap-1">
+                            <Label className="text-[10px] text-neutral-500 uppercase">Timeouts (seconds)</Label>
+                            <div className="grid grid-cols-3 gap-2">
+                              {EXPERT_TIMEOUTS.map(t => (
+                                <Input
+                                  key={t.key}
+                                  type="number"
+                                  min={0}
+                                  value={provider.timeouts?.[t.key] ?? ""}
+                                  onChange={(e) => handleTimeoutChange(provider.id, t.key, e.target.value)}
+                                  placeholder={`${t.label} (${t.defaultSeconds})`}
+                                  className="h-8 bg-white text-xs"
+                                  data-testid={`input-timeout-${t.key}-${provider.id}`}
+                                />
+                              ))}
+                            </div>
+                            <p className="text-[10px] text-neutral-400">Attempt limits one model call, Expert the whole run, Stall the gap between streamed tokens. A timed-out expert counts as failed. 0 disables a limit.</p>
+                          </div>
+                        </CollapsibleContent>
+                      </Collapsible>
+                    )}
                     {provider.isCustom && provider.baseUrl && (
                       <div className="flex items-center gap-2 mt-2 text-xs text-neutral-400">
                         <Link className="w-3 h-3" />
                         <span className="truncate max-w-[250px]">{provider.baseUrl}</span>
+                        {provider.contextLength && (
+                          <span className="font-mono">· {provider.contextLength.toLocaleString()} ctx</span>
+                        )}
                       </div>
                     )}
                   </div>
                 </div>
 
                 <div className="hidden sm:flex flex-col items-end gap-2 text-xs text-neutral-400 font-mono pt-1">
-                  {provider.isCustom ? (
+                  {provider.isCustom || isExpert(provider) ? (
                     <Button
                       variant="ghost"
                       size="sm"
@@ -273,6 +848,79 @@ export default function SettingsTab({ providers, onProvidersChange, consensusMod
               </div>
             ))}
 
+            <Dialog open={isExpertDialogOpen} onOpenChange={setIsExpertDialogOpen}>
+              <DialogTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="w-full border-dashed border-2 border-neutral-300 hover:border-indigo-400 hover:bg-indigo-50/50 text-neutral-600 hover:text-indigo-600"
+                  data-testid="button-add-expert"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Expert
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                  <DialogTitle>Add Expert</DialogTitle>
+                  <DialogDescription>
+                    Run another model from a built-in vendor as an independent expert, e.g. GPT-5 and GPT-4o Mini side by side. Each expert has its own sampling, limits and fallbacks.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="grid gap-4 py-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="expert-vendor">Vendor</Label>
+                    <Select
+                      value={newExpert.vendor}
+                      onValueChange={(val) => setNewExpert({ ...newExpert, vendor: val, model: "" })}
+                    >
+                      <SelectTrigger id="expert-vendor" className="bg-white" data-testid="select-expert-vendor">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-white border-neutral-200 shadow-lg">
+                        {Object.keys(PROVIDER_MODELS).map((vendorId) => (
+                          <SelectItem key={vendorId} value={vendorId}>{VENDOR_NAMES[vendorId] || vendorId}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="expert-model">Model</Label>
+                    <Select
+                      value={newExpert.model}
+                      onValueChange={(val) => setNewExpert({ ...newExpert, model: val })}
+                    >
+                      <SelectTrigger id="expert-model" className="bg-white" data-testid="select-expert-model">
+                        <SelectValue placeholder="Select model" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-white border-neutral-200 shadow-lg">
+                        {(PROVIDER_MODELS[newExpert.vendor] || []).map((m) => (
+                          <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="expert-name">Name (optional)</Label>
+                    <Input
+                      id="expert-name"
+                      placeholder="Defaults to the model name"
+                      value={newExpert.name}
+                      onChange={(e) => setNewExpert({ ...newExpert, name: e.target.value })}
+                      data-testid="input-expert-name"
+                    />
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setIsExpertDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleAddExpert} data-testid="button-confirm-add-expert">
+                    Add Expert
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+
             <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
               <DialogTrigger asChild>
                 <Button
@@ -288,10 +936,25 @@ export default function SettingsTab({ providers, onProvidersChange, consensusMod
                 <DialogHeader>
                   <DialogTitle>Add Custom Provider</DialogTitle>
                   <DialogDescription>
-                    Connect any OpenAI-compatible API endpoint as a custom provider.
+                    Connect any OpenAI-compatible API endpoint, or a local Ollama / llama.cpp server.
                   </DialogDescription>
                 </DialogHeader>
                 <div className="grid gap-4 py-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="provider-kind">Provider Type</Label>
+                    <Select
+                      value={newProvider.kind}
+                      onValueChange={(val) => handleNewProviderKindChange(val as "custom" | "local")}
+                    >
+                      <SelectTrigger id="provider-kind" className="bg-white" data-testid="select-new-provider-kind">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-white border-neutral-200 shadow-lg">
+                        <SelectItem value="custom">OpenAI-compatible API</SelectItem>
+                        <SelectItem value="local">Local model (Ollama / llama.cpp)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div className="grid gap-2">
                     <Label htmlFor="provider-name">Provider Name</Label>
                     <Input
@@ -303,16 +966,21 @@ export default function SettingsTab({ providers, onProvidersChange, consensusMod
                     />
                   </div>
                   <div className="grid gap-2">
-                    <Label htmlFor="provider-url">API Base URL</Label>
+                    <Label htmlFor="provider-url">{newProvider.kind === "local" ? "Server URL" : "API Base URL"}</Label>
                     <Input
                       id="provider-url"
-                      placeholder="https://api.example.com/v1"
+                      placeholder={newProvider.kind === "local" ? "http://localhost:11434" : "https://api.example.com/v1"}
                       value={newProvider.baseUrl}
                       onChange={(e) => setNewProvider({ ...newProvider, baseUrl: e.target.value })}
                       data-testid="input-new-provider-url"
                     />
-                    <p className="text-xs text-neutral-500">The base URL for the OpenAI-compatible API</p>
+                    <p className="text-xs text-neutral-500">
+                      {newProvider.kind === "local"
+                        ? "Ollama defaults to port 11434, llama.cpp server to port 8080"
+                        : "The base URL for the OpenAI-compatible API"}
+                    </p>
                   </div>
+                  {newProvider.kind === "custom" && (
                   <div className="grid gap-2">
                     <Label htmlFor="provider-key">API Key (optional)</Label>
                     <Input
@@ -325,21 +993,75 @@ export default function SettingsTab({ providers, onProvidersChange, consensusMod
                     />
                     <p className="text-xs text-neutral-500">Leave empty if not required</p>
                   </div>
+                  )}
                   <div className="grid gap-2">
                     <Label htmlFor="provider-model">Model Name</Label>
-                    <Input
-                      id="provider-model"
-                      placeholder="gpt-4, llama-3, etc."
-                      value={newProvider.model}
-                      onChange={(e) => setNewProvider({ ...newProvider, model: e.target.value })}
-                      data-testid="input-new-provider-model"
-                    />
+                    {newProvider.kind === "local" ? (
+                      <div className="flex gap-2">
+                        <Select
+                          value={newProvider.model}
+                          onValueChange={(val) => setNewProvider({ ...newProvider, model: val })}
+                          disabled={localModels.length === 0}
+                        >
+                          <SelectTrigger id="provider-model" className="flex-1 bg-white" data-testid="select-new-provider-model">
+                            <SelectValue placeholder="Discover models first" />
+                          </SelectTrigger>
+                          <SelectContent className="bg-white border-neutral-200 shadow-lg">
+                            {localModels.map((m) => (
+                              <SelectItem key={m.id} value={m.id}>
+                                <div className="flex items-center justify-between w-full gap-4">
+                                  <span>{m.id}</span>
+                                  {m.contextLength && (
+                                    <span className="text-xs text-neutral-400 font-mono">{m.contextLength.toLocaleString()} ctx</span>
+                                  )}
+                                </div>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="outline"
+                          onClick={handleDiscoverModels}
+                          disabled={isDiscovering}
+                          data-testid="button-discover-local-models"
+                        >
+                          <RefreshCw className={`w-4 h-4 ${isDiscovering ? "animate-spin" : ""}`} />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Input
+                        id="provider-model"
+                        placeholder="gpt-4, llama-3, etc."
+                        value={newProvider.model}
+                        onChange={(e) => setNewProvider({ ...newProvider, model: e.target.value })}
+                        data-testid="input-new-provider-model"
+                      />
+                    )}
                   </div>
+                  {newProviderTest && (
+                    <div
+                      className={`rounded-md p-3 text-xs border ${newProviderTest.ok ? "bg-emerald-50 border-emerald-100 text-emerald-800" : "bg-red-50 border-red-100 text-red-800"}`}
+                      data-testid="text-new-provider-test"
+                    >
+                      {newProviderTest.ok
+                        ? `Connected in ${newProviderTest.latencyMs}ms. Streaming ${newProviderTest.streaming ? "supported" : "not detected"}, vision ${newProviderTest.vision ? "supported" : "not supported"}.`
+                        : `${newProviderTest.modelFound === false ? "Model not found" : "Connection failed"}: ${newProviderTest.error}`}
+                    </div>
+                  )}
                 </div>
                 <DialogFooter>
                   <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
                     Cancel
                   </Button>
+                  <Button
+                    variant="outline"
+                    onClick={handleTestNewProvider}
+                    disabled={testingId !== null}
+                    data-testid="button-test-new-provider"
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-2 ${testingId === "new" ? "animate-spin" : ""}`} />
+                    Test Connection
+                  </Button>
                   <Button onClick={handleAddProvider} data-testid="button-confirm-add-provider">
                     Add Provider
                   </Button>
@@ -361,6 +1083,36 @@ export default function SettingsTab({ providers, onProvidersChange, consensusMod
           </CardContent>
         </Card>
 
+        <Card className="border-neutral-200 bg-white shadow-sm">
+          <CardHeader className="pb-4">
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="w-5 h-5 text-neutral-500" />
+              Spending Limits
+            </CardTitle>
+            <CardDescription>
+              Hard caps in USD. Poetiq stops launching new attempts or experts when the next call could exceed a cap and returns the best answer so far.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {SPENDING_LIMITS.map(limit => (
+              <div key={limit.key} className="flex items-center gap-4">
+                <Label className="text-xs text-neutral-500 uppercase font-medium min-w-[120px]">{limit.label}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={spendingLimits[limit.key] ?? ""}
+                  onChange={(e) => handleSpendingLimitChange(limit.key, e.target.value)}
+                  placeholder="No limit"
+                  className="w-[140px] h-9 bg-white text-sm"
+                  data-testid={`input-spending-${limit.key}`}
+                />
+                <span className="text-xs text-neutral-500">{limit.description}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
         <Card className="border-neutral-200 bg-white shadow-sm">
           <CardHeader className="pb-4">
             <CardTitle className="flex items-center gap-2">
@@ -397,6 +1149,140 @@ export default function SettingsTab({ providers, onProvidersChange, consensusMod
               {CONSENSUS_MODES.find(m => m.id === consensusMode)?.description}
             </div>
 
+            {(consensusMode === "judge" || consensusMode === "synthesize") && onJudgeProviderIdChange && (
+              <>
+                <div className="flex items-center gap-4">
+                  <Label className="text-xs text-neutral-500 uppercase font-medium min-w-[80px]">
+                    {consensusMode === "judge" ? "Judge" : "Synthesizer"}
+                  </Label>
+                  <Select
+                    value={judgeProviderId ?? "first"}
+                    onValueChange={(val) => onJudgeProviderIdChange(val === "first" ? null : val)}
+                  >
+                    <SelectTrigger className="w-[280px] h-9 bg-white text-sm" data-testid="select-judge-provider">
+                      <SelectValue placeholder="Select model" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-white border-neutral-200 shadow-lg">
+                      <SelectItem value="first">First enabled model</SelectItem>
+                      {providers.filter(p => p.enabled).map((provider) => (
+                        <SelectItem key={provider.id} value={provider.id}>
+                          {provider.name} ({provider.model})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="text-sm text-neutral-500 pl-[96px]">
+                  {consensusMode === "judge"
+                    ? "Answers are shown to the judge without model names. Its scores and rationale appear in the reasoning panel."
+                    : "The synthesizer sees every answer with its experts and vote counts, and writes the final answer."}
+                </div>
+              </>
+            )}
+
+            {onConsensusQuorumChange && (
+              <>
+                <div className="flex items-center gap-4">
+                  <Label className="text-xs text-neutral-500 uppercase font-medium min-w-[80px]">Early exit</Label>
+                  <Select
+                    value={String(consensusQuorum ?? "majority")}
+                    onValueChange={(val) => onConsensusQuorumChange(val === "majority" ? null : Number(val))}
+                  >
+                    <SelectTrigger className="w-[280px] h-9 bg-white text-sm" data-testid="select-consensus-quorum">
+                      <SelectValue placeholder="Select quorum" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-white border-neutral-200 shadow-lg">
+                      {QUORUM_OPTIONS.map((option) => (
+                        <SelectItem key={option.name} value={String(option.value ?? "majority")}>
+                          {option.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="text-sm text-neutral-500 pl-[96px]">
+                  {QUORUM_OPTIONS.find(o => o.value === (consensusQuorum ?? null))?.description}
+                </div>
+              </>
+            )}
+
+            {onRefinementRoundsChange && (
+              <>
+                <div className="flex items-center gap-4">
+                  <Label className="text-xs text-neutral-500 uppercase font-medium min-w-[80px]">Refine</Label>
+                  <Select
+                    value={String(refinementRounds ?? 0)}
+                    onValueChange={(val) => onRefinementRoundsChange(Number(val))}
+                  >
+                    <SelectTrigger className="w-[280px] h-9 bg-white text-sm" data-testid="select-refinement-rounds">
+                      <SelectValue placeholder="Select refinement rounds" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-white border-neutral-200 shadow-lg">
+                      {REFINEMENT_OPTIONS.map((option) => (
+                        <SelectItem key={option.rounds} value={String(option.rounds)}>
+                          {option.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="text-sm text-neutral-500 pl-[96px]">
+                  {refinementRounds
+                    ? "The first enabled model drafts, the second critiques it against the task, and the first revises. Other enabled models are not used and consensus voting is skipped."
+                    : "All enabled models answer in parallel and their answers are combined by consensus."}
+                </div>
+              </>
+            )}
+
+            {consensusMode !== "exact" && onSimilarityBackendChange && onSimilarityThresholdsChange && (
+              <>
+                <div className="flex items-center gap-4">
+                  <Label className="text-xs text-neutral-500 uppercase font-medium min-w-[80px]">Similarity</Label>
+                  <Select
+                    value={similarityBackend}
+                    onValueChange={(val) => onSimilarityBackendChange(val as SimilarityBackendName)}
+                  >
+                    <SelectTrigger className="w-[280px] h-9 bg-white text-sm" data-testid="select-similarity-backend">
+                      <SelectValue placeholder="Select similarity backend" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-white border-neutral-200 shadow-lg">
+                      {SIMILARITY_BACKENDS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="text-sm text-neutral-500 pl-[96px]">
+                  {SIMILARITY_BACKENDS.find(o => o.value === similarityBackend)?.description}
+                </div>
+
+                <div className="flex items-center gap-4">
+                  <Label className="text-xs text-neutral-500 uppercase font-medium min-w-[80px]">Threshold</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={similarityThresholds[similarityBackend] ?? ""}
+                    onChange={(e) => handleSimilarityThresholdChange(e.target.value)}
+                    placeholder={`Default (${SIMILARITY_BACKENDS.find(o => o.value === similarityBackend)?.defaultThreshold})`}
+                    className="w-[280px] h-9 bg-white text-sm"
+                    data-testid="input-similarity-threshold"
+                  />
+                </div>
+
+                <div className="text-sm text-neutral-500 pl-[96px]">
+                  How similar (0-1) two answers must be to share a semantic cluster. Each backend keeps its own threshold, and a fallback to TF-IDF uses the TF-IDF one.
+                </div>
+              </>
+            )}
+
             <div className="rounded-md bg-amber-50 p-4 border border-amber-100 flex gap-3 mt-4">
               <Info className="w-5 h-5 text-amber-600 shrink-0 mt-0.5" />
               <div className="text-sm text-amber-900">
@@ -405,6 +1291,8 @@ export default function SettingsTab({ providers, onProvidersChange, consensusMod
                   <li><strong>Auto:</strong> Let Poetiq analyze your prompt and choose automatically</li>
                   <li><strong>Exact Match:</strong> Best for math, code, factual questions with one correct answer</li>
                   <li><strong>Semantic:</strong> Best for explanations, creative tasks, open-ended discussions</li>
+                  <li><strong>LLM Judge:</strong> Best when answers differ in quality rather than in the final result</li>
+                  <li><strong>Synthesize:</strong> Best for open-ended questions where each model covers different ground</li>
                 </ul>
               </div>
             </div>
@@ -1,4 +1,4 @@
-import type { Conversation, Message, ReasoningStep, Settings } from "@shared/schema";
+import type { Conversation, Message, ReasoningStep, Settings, CostTotals, DailyCost } from "@shared/schema";
 
 export async function fetchConversations(): Promise<Conversation[]> {
   const response = await fetch("/api/conversations");
@@ -39,18 +39,188 @@ export async function renameConversation(id: string, title: string): Promise<Con
   return response.json();
 }
 
+export async function fetchConversationCost(id: string): Promise<CostTotals> {
+  const response = await fetch(`/api/conversations/${id}/cost`);
+  if (!response.ok) throw new Error("Failed to fetch conversation cost");
+  return response.json();
+}
+
+export async function fetchDailyCosts(days = 30): Promise<DailyCost[]> {
+  const response = await fetch(`/api/costs/daily?days=${days}`);
+  if (!response.ok) throw new Error("Failed to fetch daily costs");
+  return response.json();
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens?: number;
+  cost?: number;
+}
+
+export interface FallbackTarget {
+  id: string;
+  name?: string;
+  model: string;
+}
+
+export type ReasoningEffort = "minimal" | "low" | "medium" | "high";
+
+export interface SamplingParams {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  reasoningEffort?: ReasoningEffort;
+  thinkingBudgetTokens?: number;
+}
+
+export interface RateLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  maxConcurrent?: number;
+}
+
+// Seconds; empty uses the server default, 0 disables the limit.
+export interface ExpertTimeouts {
+  attemptSeconds?: number;
+  expertSeconds?: number;
+  stallSeconds?: number;
+}
+
 export interface ProviderConfig {
   id: string;
   name: string;
   enabled: boolean;
   model: string;
+  kind?: string;
   isCustom?: boolean;
   baseUrl?: string;
   apiKey?: string;
+  contextLength?: number;
+  fallbacks?: FallbackTarget[];
+  sampling?: SamplingParams;
+  promptPrefix?: string;
+  rateLimits?: RateLimits;
+  timeouts?: ExpertTimeouts;
+}
+
+export interface LocalModelInfo {
+  id: string;
+  contextLength?: number;
+}
+
+export async function discoverLocalModels(baseUrl: string): Promise<LocalModelInfo[]> {
+  const response = await fetch(`/api/providers/local/models?baseUrl=${encodeURIComponent(baseUrl)}`);
+  if (!response.ok) throw new Error("Failed to discover local models");
+  return response.json();
+}
+
+export interface SpendingLimits {
+  perRequest?: number;
+  perConversation?: number;
+  perDay?: number;
+}
+
+export type SimilarityBackendName = "tfidf" | "embeddings";
+
+// Semantic clustering threshold per similarity backend; missing = backend default
+export type SimilarityThresholds = Partial<Record<SimilarityBackendName, number>>;
+
+export interface BudgetExceeded {
+  scope: "request" | "conversation" | "day";
+  limit: number;
+  spent: number;
+  estimate: number;
+}
+
+export interface ProviderHealth {
+  providerId: string;
+  model: string;
+  ok: boolean;
+  latencyMs: number;
+  firstChunkMs?: number;
+  modelFound?: boolean;
+  streaming: boolean;
+  vision: boolean;
+  error?: string;
+  checkedAt: string;
+}
+
+export async function testProviderConnection(provider: ProviderConfig): Promise<ProviderHealth> {
+  const response = await fetch("/api/providers/test", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ provider }),
+  });
+  if (!response.ok) throw new Error("Failed to test provider");
+  return response.json();
+}
+
+export async function fetchProviderHealth(refresh = false): Promise<ProviderHealth[]> {
+  const response = await fetch(`/api/providers/health${refresh ? "?refresh=true" : ""}`);
+  if (!response.ok) throw new Error("Failed to fetch provider health");
+  return response.json();
+}
+
+export interface ExpertRunResult {
+  providerId: string;
+  providerName: string;
+  model: string;
+  response: string;
+  canonicalAnswer: string;
+  success: boolean;
+  iterations: number;
+  usage: TokenUsage;
+  executionOutput?: string;
+  error?: string;
+  sample?: number;
+}
+
+export interface ExpertConsensusGroup {
+  canonicalAnswer: string;
+  responses: ExpertRunResult[];
+  voteCount: number;
+  averageSuccess: number;
+  centroid?: { providerId: string; providerName: string; sample?: number; cohesion: number };
+}
+
+export interface ExpertConsensus {
+  strategy: "exact" | "semantic" | "judge" | "synthesize";
+  winningAnswer: string;
+  winningGroup: ExpertConsensusGroup;
+  allGroups: ExpertConsensusGroup[];
+  agreement: number;
+  totalExperts: number;
+  summary: string;
+  judgement?: {
+    judgeName: string;
+    model: string;
+    scores: { candidate: string; providerNames: string[]; score: number | null }[];
+    best: string;
+    rationale: string;
+  };
+  synthesis?: { synthesizerName: string; model: string };
+  similarity?: { backend: string; threshold: number; experts: string[]; matrix: number[][] };
+}
+
+// Live progress of one expert in a multi-model run, or of the consensus step.
+export interface ExpertEvent {
+  type: "expert_started" | "expert_progress" | "expert_complete" | "expert_error" | "consensus_started" | "consensus_complete";
+  providerId?: string;
+  providerName?: string;
+  model?: string;
+  // Set when each expert runs several self-consistency samples
+  sample?: number;
+  content?: string;
+  delta?: string;
+  attempt?: number;
+  result?: ExpertRunResult;
+  consensus?: ExpertConsensus;
 }
 
 export interface StreamEvent {
-  type: "content" | "reasoning_step" | "done" | "error" | "token_usage";
+  type: "content" | "reasoning_step" | "done" | "error" | "token_usage" | "run_started" | "cancelled" | "budget_exceeded" | "expert_event";
   content?: string;
   step?: {
     provider: string;
@@ -58,43 +228,32 @@ export interface StreamEvent {
     action: string;
     content: string;
     stepNumber: number;
-    tokenUsage?: {
-      inputTokens: number;
-      outputTokens: number;
-    };
+    tokenUsage?: TokenUsage;
+    cost?: number;
   };
   messageId?: string;
+  runId?: string;
   error?: string;
-  usage?: {
-    inputTokens: number;
-    outputTokens: number;
-  };
+  usage?: TokenUsage;
+  budget?: BudgetExceeded;
+  event?: ExpertEvent;
 }
 
-export async function* solveTask(
-  conversationId: string,
-  message: string,
-  providers: ProviderConfig[]
-): AsyncGenerator<StreamEvent> {
-  const response = await fetch(`/api/conversations/${conversationId}/solve`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ message, providers }),
-  });
-
-  if (!response.ok) throw new Error("Failed to start solving");
-  if (!response.body) throw new Error("No response body");
-
-  const reader = response.body.getReader();
+// Events can be split across network reads, so partial lines are carried over
+// to the next read.
+async function* readStreamEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamEvent> {
+  const reader = body.getReader();
   const decoder = new TextDecoder();
+  let buffer = "";
 
   try {
     while (true) {
       const { done, value } = await reader.read();
       if (done) break;
 
-      const chunk = decoder.decode(value);
-      const lines = chunk.split("\n");
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
 
       for (const line of lines) {
         if (line.startsWith("data: ")) {
@@ -113,6 +272,33 @@ export async function* solveTask(
   }
 }
 
+export async function* solveTask(
+  conversationId: string,
+  message: string,
+  providers: ProviderConfig[],
+  computeBudget?: number,
+  signal?: AbortSignal
+): AsyncGenerator<StreamEvent> {
+  const response = await fetch(`/api/conversations/${conversationId}/solve`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message, providers, computeBudget }),
+    signal,
+  });
+
+  if (!response.ok) throw new Error("Failed to start solving");
+  if (!response.body) throw new Error("No response body");
+
+  yield* readStreamEvents(response.body);
+}
+
+export async function cancelRun(runId: string): Promise<void> {
+  const response = await fetch(`/api/runs/${runId}/cancel`, {
+    method: "POST",
+  });
+  if (!response.ok) throw new Error("Failed to cancel run");
+}
+
 export async function fetchReasoningSteps(messageId: string): Promise<ReasoningStep[]> {
   const response = await fetch(`/api/messages/${messageId}/reasoning`);
   if (!response.ok) throw new Error("Failed to fetch reasoning steps");
@@ -125,13 +311,22 @@ export async function fetchSettings(): Promise<Settings> {
   return response.json();
 }
 
-export type ConsensusMode = "auto" | "exact" | "semantic";
+export type ConsensusMode = "auto" | "exact" | "semantic" | "judge" | "synthesize";
 
-export async function updateSettings(providers: any, consensusMode?: ConsensusMode): Promise<Settings> {
+export async function updateSettings(
+  providers: any,
+  consensusMode?: ConsensusMode,
+  spendingLimits?: SpendingLimits,
+  consensusQuorum?: number | null,
+  refinementRounds?: number,
+  judgeProviderId?: string | null,
+  similarityBackend?: SimilarityBackendName,
+  similarityThresholds?: SimilarityThresholds
+): Promise<Settings> {
   const response = await fetch("/api/settings", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ providers, consensusMode }),
+    body: JSON.stringify({ providers, consensusMode, spendingLimits, consensusQuorum, refinementRounds, judgeProviderId, similarityBackend, similarityThresholds }),
   });
   if (!response.ok) throw new Error("Failed to update settings");
   return response.json();
@@ -147,41 +342,19 @@ export async function* sendChatMessage(
   conversationId: string,
   message: string,
   providers: ProviderConfig[],
-  attachments?: AttachmentRef[]
+  attachments?: AttachmentRef[],
+  computeBudget?: number,
+  signal?: AbortSignal
 ): AsyncGenerator<StreamEvent> {
   const response = await fetch(`/api/conversations/${conversationId}/chat`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ message, providers, attachments }),
+    body: JSON.stringify({ message, providers, attachments, computeBudget }),
+    signal,
   });
 
   if (!response.ok) throw new Error("Failed to send message");
   if (!response.body) throw new Error("No response body");
 
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder();
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value);
-      const lines = chunk.split("\n");
-
-      for (const line of lines) {
-        if (line.startsWith("data: ")) {
-          const data = line.slice(6);
-          try {
-            const event: StreamEvent = JSON.parse(data);
-            yield event;
-          } catch (e) {
-            console.error("Failed to parse SSE data:", data);
-          }
-        }
-      }
-    }
-  } finally {
-    reader.releaseLock();
-  }
+  yield* readStreamEvents(response.body);
 }
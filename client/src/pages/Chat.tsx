@@ -25,7 +25,8 @@ import {
   CheckCircle2,
   Zap,
   Copy,
-  Check
+  Check,
+  Square
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "@/hooks/use-toast";
@@ -37,12 +38,19 @@ import {
   deleteConversation,
   renameConversation,
   sendChatMessage,
+  cancelRun,
   fetchSettings,
   fetchReasoningSteps,
+  fetchConversationCost,
   type ProviderConfig,
+  type TokenUsage,
+  type SpendingLimits,
+  type SimilarityBackendName,
+  type SimilarityThresholds,
   type ConsensusMode 
 } from "@/lib/api";
 import { FileUploader, type FileAttachment } from "@/components/FileUploader";
+import { ExpertLanes, applyExpertEvent, EMPTY_EXPERT_RUN, type ExpertRunState } from "@/components/ExpertLanes";
 
 interface ReasoningStep {
   id: number;
@@ -50,13 +58,16 @@ interface ReasoningStep {
   model: string;
   action: string;
   content: string;
-  tokenUsage?: {
-    inputTokens: number;
-    outputTokens: number;
-  };
+  tokenUsage?: TokenUsage;
+  cost?: number;
 }
 import type { Conversation, Message } from "@shared/schema";
 
+function formatCost(cost: number): string {
+  if (cost === 0) return "$0";
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
 export default function Chat() {
   const [activeTab, setActiveTab] = useState("chat");
   const [input, setInput] = useState("");
@@ -69,17 +80,28 @@ export default function Chat() {
   const [providers, setProviders] = useState<ProviderConfig[]>([
     { id: "openai", name: "OpenAI", enabled: true, model: "gpt-5" },
     { id: "anthropic", name: "Anthropic", enabled: true, model: "claude-sonnet-4-5" },
+    { id: "gemini", name: "Google Gemini", enabled: false, model: "gemini-2.5-flash" },
     { id: "openrouter", name: "OpenRouter", enabled: false, model: "meta-llama/llama-3.3-70b-instruct" }
   ]);
   const [consensusMode, setConsensusMode] = useState<ConsensusMode>("auto");
+  const [spendingLimits, setSpendingLimits] = useState<SpendingLimits>({});
+  const [consensusQuorum, setConsensusQuorum] = useState<number | null>(null);
+  const [refinementRounds, setRefinementRounds] = useState(0);
+  const [judgeProviderId, setJudgeProviderId] = useState<string | null>(null);
+  const [similarityBackend, setSimilarityBackend] = useState<SimilarityBackendName>("tfidf");
+  const [similarityThresholds, setSimilarityThresholds] = useState<SimilarityThresholds>({});
   const [showReasoning, setShowReasoning] = useState(false);
   const [reasoningSteps, setReasoningSteps] = useState<ReasoningStep[]>([]);
   const [streamingReasoning, setStreamingReasoning] = useState<ReasoningStep[]>([]);
-  const [tokenUsage, setTokenUsage] = useState<{ inputTokens: number; outputTokens: number } | null>(null);
+  const [expertRun, setExpertRun] = useState<ExpertRunState>(EMPTY_EXPERT_RUN);
+  const [tokenUsage, setTokenUsage] = useState<TokenUsage | null>(null);
+  const [conversationCost, setConversationCost] = useState<number | null>(null);
   const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null);
   const [copiedCodeId, setCopiedCodeId] = useState<string | null>(null);
   const [computeBudget, setComputeBudget] = useState([50]);
   const [attachments, setAttachments] = useState<FileAttachment[]>([]);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [isStopping, setIsStopping] = useState(false);
 
   const copyToClipboard = async (content: string, messageId: string) => {
     try {
@@ -114,6 +136,7 @@ export default function Chat() {
   };
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const requestControllerRef = useRef<AbortController | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   useEffect(() => {
@@ -142,6 +165,9 @@ export default function Chat() {
     try {
       const { messages: msgs } = await fetchConversation(id);
       setMessages(msgs);
+      fetchConversationCost(id)
+        .then(totals => setConversationCost(totals.cost))
+        .catch(() => setConversationCost(null));
       
       const lastAssistantMessage = msgs.filter(m => m.role === "assistant").pop();
       if (lastAssistantMessage) {
@@ -156,7 +182,8 @@ export default function Chat() {
             tokenUsage: (s.inputTokens || s.outputTokens) ? {
               inputTokens: s.inputTokens || 0,
               outputTokens: s.outputTokens || 0
-            } : undefined
+            } : undefined,
+            cost: s.cost ?? undefined
           }));
           setReasoningSteps(formattedSteps);
           
@@ -180,10 +207,11 @@ export default function Chat() {
       const settings = await fetchSettings();
       if (settings.providers && Array.isArray(settings.providers) && settings.providers.length > 0) {
         const savedProviders = settings.providers as ProviderConfig[];
-        const defaultProviderIds = ["openai", "anthropic", "openrouter"];
+        const defaultProviderIds = ["openai", "anthropic", "gemini", "openrouter"];
         const defaultProviders: ProviderConfig[] = [
           { id: "openai", name: "OpenAI", enabled: true, model: "gpt-5" },
           { id: "anthropic", name: "Anthropic", enabled: true, model: "claude-sonnet-4-5" },
+          { id: "gemini", name: "Google Gemini", enabled: false, model: "gemini-2.5-flash" },
           { id: "openrouter", name: "OpenRouter", enabled: false, model: "meta-llama/llama-3.3-70b-instruct" }
         ];
         const mergedDefaults = defaultProviders.map(defaultProvider => {
@@ -196,6 +224,14 @@ export default function Chat() {
       if (settings.consensusMode) {
         setConsensusMode(settings.consensusMode as ConsensusMode);
       }
+      if (settings.spendingLimits) {
+        setSpendingLimits(settings.spendingLimits as SpendingLimits);
+      }
+      setConsensusQuorum(settings.consensusQuorum ?? null);
+      setRefinementRounds(settings.refinementRounds ?? 0);
+      setJudgeProviderId(settings.judgeProviderId ?? null);
+      setSimilarityBackend(settings.similarityBackend === "embeddings" ? "embeddings" : "tfidf");
+      setSimilarityThresholds((settings.similarityThresholds as SimilarityThresholds | null) ?? {});
     } catch (error) {
       console.error("Failed to load settings:", error);
     }
@@ -207,6 +243,7 @@ export default function Chat() {
       setConversations([newConv, ...conversations]);
       setActiveConversationId(newConv.id);
       setMessages([]);
+      setConversationCost(null);
       setActiveTab("chat");
     } catch (error) {
       console.error("Failed to create conversation:", error);
@@ -236,6 +273,7 @@ export default function Chat() {
         } else {
           setActiveConversationId(null);
           setMessages([]);
+          setConversationCost(null);
         }
       }
     } catch (error) {
@@ -294,6 +332,7 @@ export default function Chat() {
     setIsLoading(true);
     setStreamingContent("");
     setStreamingReasoning([]);
+    setExpertRun(EMPTY_EXPERT_RUN);
     setTokenUsage(null);
 
     const tempUserMessage: Message = {
@@ -308,10 +347,25 @@ export default function Chat() {
 
     let fullResponse = "";
     const collectedSteps: ReasoningStep[] = [];
+    let expertState = EMPTY_EXPERT_RUN;
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
 
     try {
-      for await (const event of sendChatMessage(conversationId, userMessage, providers, currentAttachments)) {
-        if (event.type === "content") {
+      for await (const event of sendChatMessage(conversationId, userMessage, providers, currentAttachments, computeBudget[0], controller.signal)) {
+        if (event.type === "run_started" && event.runId) {
+          setActiveRunId(event.runId);
+        } else if (event.type === "cancelled") {
+          toast({
+            title: "Stopped",
+            description: "Generation was cancelled. Partial output has been saved.",
+          });
+        } else if (event.type === "budget_exceeded" && event.budget) {
+          toast({
+            title: "Budget reached",
+            description: `The ${event.budget.scope} budget of ${formatCost(event.budget.limit)} was reached. Returning the best answer so far.`,
+          });
+        } else if (event.type === "content") {
           fullResponse += event.content;
           setStreamingContent(fullResponse);
         } else if (event.type === "reasoning_step" && event.step) {
@@ -321,15 +375,20 @@ export default function Chat() {
             model: event.step.model,
             action: event.step.action,
             content: event.step.content,
-            tokenUsage: event.step.tokenUsage
+            tokenUsage: event.step.tokenUsage,
+            cost: event.step.cost
           };
           collectedSteps.push(newStep);
           setStreamingReasoning([...collectedSteps]);
+        } else if (event.type === "expert_event" && event.event) {
+          expertState = applyExpertEvent(expertState, event.event);
+          setExpertRun(expertState);
         } else if (event.type === "token_usage" && event.usage) {
           setTokenUsage(event.usage);
         } else if (event.type === "done") {
           setStreamingContent("");
           setStreamingReasoning([]);
+          setExpertRun(EMPTY_EXPERT_RUN);
           setReasoningSteps(collectedSteps);
           setIsLoading(false);
           await loadConversation(conversationId!);
@@ -339,16 +398,40 @@ export default function Chat() {
         }
       }
     } catch (error) {
-      console.error("Error during chat:", error);
       setIsLoading(false);
       setStreamingContent("");
       setStreamingReasoning([]);
-      toast({
-        title: "Error",
-        description: "Failed to send message. Please try again.",
-        variant: "destructive"
-      });
+      setExpertRun(EMPTY_EXPERT_RUN);
+      if (controller.signal.aborted) {
+        await loadConversation(conversationId!);
+      } else {
+        console.error("Error during chat:", error);
+        toast({
+          title: "Error",
+          description: "Failed to send message. Please try again.",
+          variant: "destructive"
+        });
+      }
+    } finally {
+      requestControllerRef.current = null;
+      setActiveRunId(null);
+      setIsStopping(false);
+    }
+  };
+
+  const handleStop = async () => {
+    setIsStopping(true);
+    if (activeRunId) {
+      try {
+        await cancelRun(activeRunId);
+        return;
+      } catch (error) {
+        console.error("Failed to cancel run:", error);
+      }
     }
+    // No run id yet (or the cancel call failed): dropping the connection
+    // makes the server abort the run and save what it has.
+    requestControllerRef.current?.abort();
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -443,6 +526,18 @@ export default function Chat() {
                 onProvidersChange={setProviders}
                 consensusMode={consensusMode}
                 onConsensusModeChange={setConsensusMode}
+                spendingLimits={spendingLimits}
+                onSpendingLimitsChange={setSpendingLimits}
+                consensusQuorum={consensusQuorum}
+                onConsensusQuorumChange={setConsensusQuorum}
+                refinementRounds={refinementRounds}
+                onRefinementRoundsChange={setRefinementRounds}
+                judgeProviderId={judgeProviderId}
+                onJudgeProviderIdChange={setJudgeProviderId}
+                similarityBackend={similarityBackend}
+                onSimilarityBackendChange={setSimilarityBackend}
+                similarityThresholds={similarityThresholds}
+                onSimilarityThresholdsChange={setSimilarityThresholds}
               />
             </div>
           </main>
@@ -512,6 +607,12 @@ export default function Chat() {
                         </div>
                       ))}
 
+                      {isLoading && expertRun.lanes.length > 0 && (
+                        <div className="pl-11">
+                          <ExpertLanes state={expertRun} />
+                        </div>
+                      )}
+
                       {streamingContent && (
                         <div className="flex gap-3 justify-start">
                           <div className="w-8 h-8 rounded-full bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center shrink-0 shadow-sm mt-1">
@@ -547,7 +648,7 @@ export default function Chat() {
                       {tokenUsage && (tokenUsage.inputTokens > 0 || tokenUsage.outputTokens > 0) && (
                         <div className="flex items-center gap-1 text-xs text-indigo-600 bg-indigo-50 px-2 py-1 rounded" data-testid="text-reasoning-tokens" title="Total tokens for this message">
                           <Zap className="w-3 h-3" />
-                          <span>Total: {tokenUsage.inputTokens.toLocaleString()} in / {tokenUsage.outputTokens.toLocaleString()} out</span>
+                          <span>Total: {tokenUsage.inputTokens.toLocaleString()} in / {tokenUsage.outputTokens.toLocaleString()} out{tokenUsage.cost !== undefined && ` · ${formatCost(tokenUsage.cost)}`}</span>
                         </div>
                       )}
                     </div>
@@ -577,21 +678,24 @@ export default function Chat() {
                         <Card className="p-4 bg-white">
                           <div className="flex items-center justify-between mb-2">
                             <div className="flex items-center gap-2">
-                              <Badge className="text-[10px] bg-indigo-100 text-indigo-700 border-indigo-200">
-                                {step.provider}
+                              <Badge className="text-[10px] bg-indigo-100 text-indigo-700 border-indigo-200" title={step.provider}>
+                                {providers.find(p => p.id === step.provider)?.name ?? step.provider}
                               </Badge>
-                              <Badge variant="outline" className="text-[10px]">
+                              <Badge
+                                variant="outline"
+                                className={`text-[10px] ${step.action === "thinking" ? "bg-amber-50 text-amber-700 border-amber-200" : ""}`}
+                              >
                                 {step.action}
                               </Badge>
                             </div>
                             {step.tokenUsage && (step.tokenUsage.inputTokens > 0 || step.tokenUsage.outputTokens > 0) && (
                               <div className="flex items-center gap-1 text-[10px] text-indigo-600" data-testid={`tokens-step-${step.id}`}>
                                 <Zap className="w-3 h-3" />
-                                <span>{step.tokenUsage.inputTokens.toLocaleString()} / {step.tokenUsage.outputTokens.toLocaleString()}</span>
+                                <span>{step.tokenUsage.inputTokens.toLocaleString()} / {step.tokenUsage.outputTokens.toLocaleString()}{step.cost ? ` · ${formatCost(step.cost)}` : ""}</span>
                               </div>
                             )}
                           </div>
-                          <p className="text-sm text-neutral-700 break-words whitespace-pre-wrap">{step.content}</p>
+                          <p className={`text-sm break-words whitespace-pre-wrap ${step.action === "thinking" ? "text-neutral-500 italic max-h-64 overflow-y-auto" : "text-neutral-700"}`}>{step.content}</p>
                           <p className="text-xs text-neutral-500 mt-1">Model: {step.model}</p>
                         </Card>
                       </div>
@@ -658,6 +762,10 @@ export default function Chat() {
                   </div>
                 ))}
 
+                {isLoading && expertRun.lanes.length > 0 && (
+                  <ExpertLanes state={expertRun} />
+                )}
+
                 {streamingContent && (
                   <div className="flex gap-3 justify-start">
                     <div className="w-7 h-7 rounded-full bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center shrink-0 shadow-sm mt-1">
@@ -709,18 +817,30 @@ export default function Chat() {
                     disabled={isLoading}
                     data-testid="input-chat-message"
                   />
-                  <Button
-                    onClick={handleSend}
-                    disabled={isLoading || !input.trim()}
-                    className="bg-indigo-600 hover:bg-indigo-700 text-white h-auto px-6"
-                    data-testid="button-send-message"
-                  >
-                    {isLoading ? (
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                    ) : (
+                  {isLoading ? (
+                    <Button
+                      onClick={handleStop}
+                      disabled={isStopping}
+                      variant="outline"
+                      className="h-auto px-6 border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+                      data-testid="button-stop-message"
+                    >
+                      {isStopping ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Square className="w-4 h-4 fill-current" />
+                      )}
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={handleSend}
+                      disabled={!input.trim()}
+                      className="bg-indigo-600 hover:bg-indigo-700 text-white h-auto px-6"
+                      data-testid="button-send-message"
+                    >
                       <Send className="w-4 h-4" />
-                    )}
-                  </Button>
+                    </Button>
+                  )}
                 </div>
                 <div className="flex items-center justify-between mt-2 text-xs text-neutral-500">
                   <span>Press Enter to send, Shift+Enter for new line</span>
@@ -728,9 +848,14 @@ export default function Chat() {
                     {tokenUsage && (
                       <div className="flex items-center gap-1 text-indigo-600" data-testid="text-token-usage" title="Total tokens for this message">
                         <Zap className="w-3 h-3" />
-                        <span>Total: {tokenUsage.inputTokens.toLocaleString()} in / {tokenUsage.outputTokens.toLocaleString()} out</span>
+                        <span>Total: {tokenUsage.inputTokens.toLocaleString()} in / {tokenUsage.outputTokens.toLocaleString()} out{tokenUsage.cost !== undefined && ` · ${formatCost(tokenUsage.cost)}`}</span>
                       </div>
                     )}
+                    {conversationCost !== null && conversationCost > 0 && (
+                      <span className="text-neutral-500" data-testid="text-conversation-cost" title="Total cost of this conversation">
+                        Conversation: {formatCost(conversationCost)}
+                      </span>
+                    )}
                     <div className="flex gap-2">
                       {providers.filter(p => p.enabled).map(p => (
                         <Badge key={p.id} variant="outline" className="text-xs">
@@ -224,7 +224,7 @@ export default function GeneralSolver() {
     let stepCounter = 0;
 
     try {
-      for await (const event of solveTask(activeConversationId, prompt, providers)) {
+      for await (const event of solveTask(activeConversationId, prompt, providers, computeBudget[0])) {
         if (event.type === "content") {
           responseText += event.content;
           setResult(responseText);
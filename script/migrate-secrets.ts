@@ -0,0 +1,35 @@
+import { storage } from "../server/storage";
+import { hasMasterKey, needsReencryption, encryptProviderSecrets } from "../server/secrets";
+import type { ProviderConfig } from "../server/llm/providers";
+
+// Encrypts provider API keys still stored in plain text and re-wraps keys
+// sealed with a master key listed in SECRETS_PREVIOUS_MASTER_KEYS. Safe to
+// run repeatedly.
+async function migrateSecrets() {
+  if (!hasMasterKey()) {
+    throw new Error("SECRETS_MASTER_KEY must be set to encrypt stored secrets");
+  }
+
+  const settings = await storage.getSettings();
+  const providers = (settings?.providers as ProviderConfig[] | undefined) || [];
+  const pending = providers.filter(p => p.apiKey && needsReencryption(p.apiKey));
+
+  if (!settings || pending.length === 0) {
+    console.log("No provider API keys need encryption.");
+    return;
+  }
+
+  await storage.updateSettings({
+    providers: encryptProviderSecrets(providers),
+    consensusMode: settings.consensusMode,
+    spendingLimits: settings.spendingLimits,
+  });
+  console.log(`Encrypted ${pending.length} provider API key(s): ${pending.map(p => p.id).join(", ")}`);
+}
+
+migrateSecrets()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
@@ -0,0 +1,71 @@
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { ProviderConfig, ReasoningStep, TokenUsage } from "../server/llm/providers";
+
+// Offline regression checks: scripted mock experts and a record → replay
+// round trip through the cassette layer. No API keys or network needed; the
+// placeholder key only lets the vendor clients construct.
+process.env.AI_INTEGRATIONS_OPENAI_API_KEY ??= "offline";
+process.env.AI_INTEGRATIONS_OPENROUTER_API_KEY ??= "offline";
+// Cassettes are written to a scratch directory, read when cassettes.ts loads
+const cassetteDir = fs.mkdtempSync(path.join(os.tmpdir(), "poetiq-cassettes-"));
+process.env.LLM_CASSETTE_DIR = cassetteDir;
+
+const { PoetiqOrchestrator } = await import("../server/llm/orchestrator");
+const { registerAdapter } = await import("../server/llm/registry");
+const { mockAdapter } = await import("../server/llm/adapters/mock");
+const { withCassettes, CassetteNotFoundError } = await import("../server/llm/cassettes");
+
+after(() => fs.rmSync(cassetteDir, { recursive: true, force: true }));
+
+function mockExpert(id: string, kind = "mock"): ProviderConfig {
+  return { id, name: id, kind, model: "default", enabled: true };
+}
+
+async function solve(providers: ProviderConfig[], prompt: string) {
+  const orchestrator = new PoetiqOrchestrator(providers, "exact");
+  const steps: ReasoningStep[] = [];
+  let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let output = "";
+  for await (const chunk of orchestrator.solveTask(prompt, step => steps.push(step), u => { usage = u; })) {
+    output += chunk;
+  }
+  return { output, steps, usage };
+}
+
+test("mock experts agree on the executed answer", async () => {
+  const { output, usage } = await solve([mockExpert("mock-a"), mockExpert("mock-b")], "What is 6 times 7?");
+  assert.match(output, /42/);
+  assert.ok(usage.inputTokens > 0 && usage.outputTokens > 0, "usage is reported");
+});
+
+test("the quant pipeline runs the analyst and then the coder", async () => {
+  const { output } = await solve([mockExpert("mock-a")], "Write a Pine Script strategy for an EMA crossover");
+  assert.match(output, /## Strategy Analysis[\s\S]*Entry Conditions/);
+  assert.match(output, /\/\/@version=6[\s\S]*strategy\.entry/);
+});
+
+test("a recorded run replays identically without reaching the provider", async () => {
+  const kind = "mock-recorded";
+  const prompt = "What is 6 times 7?";
+  registerAdapter(withCassettes({ ...mockAdapter, kind }, "record"));
+  const recorded = await solve([mockExpert("recorded", kind)], prompt);
+  assert.ok(fs.readdirSync(path.join(cassetteDir, kind)).length > 0, "cassettes were written");
+
+  const offline = () => { throw new Error("provider reached during replay"); };
+  registerAdapter(withCassettes({ ...mockAdapter, kind, call: offline, stream: offline }, "replay"));
+  const replayed = await solve([mockExpert("recorded", kind)], prompt);
+
+  assert.equal(replayed.output, recorded.output);
+  assert.deepEqual(replayed.usage, recorded.usage);
+  await assert.rejects(
+    async () => {
+      const replay = withCassettes({ ...mockAdapter, kind }, "replay");
+      await replay.call(mockExpert("recorded", kind), [{ role: "user", content: "never recorded" }]);
+    },
+    CassetteNotFoundError
+  );
+});
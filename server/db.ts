@@ -9,8 +9,11 @@ if (!process.env.DATABASE_URL) {
   );
 }
 
+// Timestamps are stored without a zone, so the session is pinned to UTC: the
+// daily cost report and the per-day spending cap then share UTC days.
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
+  options: "-c timezone=UTC",
 });
 
 export const db = drizzle(pool, { schema });
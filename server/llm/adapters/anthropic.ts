@@ -0,0 +1,10 @@
+import { callAnthropic, callAnthropicWithTools, streamAnthropic } from "../providers";
+import type { ProviderAdapter } from "../registry";
+
+export const anthropicAdapter: ProviderAdapter = {
+  kind: "anthropic",
+  capabilities: { streaming: true, vision: true, tools: true },
+  call: (provider, messages, signal, onThinking) => callAnthropic(provider.model, messages, signal, provider.sampling, onThinking),
+  stream: (provider, messages, onUsage, signal, onThinking) => streamAnthropic(provider.model, messages, onUsage, signal, provider.sampling, onThinking),
+  callWithTools: (provider, messages, tools, signal, onChunk) => callAnthropicWithTools(provider.model, messages, tools, signal, provider.sampling, onChunk),
+};
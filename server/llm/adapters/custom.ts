@@ -0,0 +1,10 @@
+import { callCustomProvider, streamCustomProvider } from "../providers";
+import type { ProviderAdapter } from "../registry";
+
+// Any OpenAI-compatible endpoint configured with a baseUrl in settings.
+export const customAdapter: ProviderAdapter = {
+  kind: "custom",
+  capabilities: { streaming: true, vision: true, tools: false },
+  call: (provider, messages, signal) => callCustomProvider(provider, messages, signal, provider.sampling),
+  stream: (provider, messages, onUsage, signal) => streamCustomProvider(provider, messages, onUsage, signal, provider.sampling),
+};
@@ -0,0 +1,9 @@
+import { callGemini, streamGemini } from "../providers";
+import type { ProviderAdapter } from "../registry";
+
+export const geminiAdapter: ProviderAdapter = {
+  kind: "gemini",
+  capabilities: { streaming: true, vision: true, tools: false },
+  call: (provider, messages, signal) => callGemini(provider.model, messages, signal, provider.sampling),
+  stream: (provider, messages, onUsage, signal) => streamGemini(provider.model, messages, onUsage, signal, provider.sampling),
+};
@@ -0,0 +1,39 @@
+import { registerAdapter } from "../registry";
+import { openaiAdapter } from "./openai";
+import { anthropicAdapter } from "./anthropic";
+import { openrouterAdapter } from "./openrouter";
+import { geminiAdapter } from "./gemini";
+import { customAdapter } from "./custom";
+import { localAdapter } from "./local";
+import { mockAdapter } from "./mock";
+import { withCassettes } from "../cassettes";
+
+// Real providers go through the cassette layer, which is a no-op unless
+// LLM_CASSETTE_MODE is set; the mock provider is already deterministic.
+registerAdapter(withCassettes(openaiAdapter));
+registerAdapter(withCassettes(anthropicAdapter));
+registerAdapter(withCassettes(openrouterAdapter));
+registerAdapter(withCassettes(geminiAdapter));
+registerAdapter(withCassettes(customAdapter));
+registerAdapter(withCassettes(localAdapter));
+registerAdapter(mockAdapter);
+
+export {
+  getAdapter,
+  listAdapters,
+  registerAdapter,
+  resolveProviderKind,
+  callProvider,
+  callProviderWithTools,
+  supportsTools,
+  supportsEmbeddings,
+  embedTexts,
+  streamProvider,
+  collectStream,
+  resolveFallbackChain,
+  attachFallbackConfigs,
+  UnknownProviderError,
+  type ProviderCallOptions,
+  type ProviderAdapter,
+  type ProviderCapabilities,
+} from "../registry";
@@ -0,0 +1,18 @@
+import { callCustomProvider, streamCustomProvider, type ProviderConfig } from "../providers";
+import { localOpenAIBaseUrl } from "../local";
+import type { ProviderAdapter } from "../registry";
+
+// Ollama and llama.cpp both speak the OpenAI chat format under /v1.
+function toOpenAICompatible(provider: ProviderConfig): ProviderConfig {
+  if (!provider.baseUrl) {
+    throw new Error(`Local provider ${provider.name} requires a baseUrl`);
+  }
+  return { ...provider, baseUrl: localOpenAIBaseUrl(provider.baseUrl) };
+}
+
+export const localAdapter: ProviderAdapter = {
+  kind: "local",
+  capabilities: { streaming: true, vision: false, tools: false },
+  call: (provider, messages, signal) => callCustomProvider(toOpenAICompatible(provider), messages, signal, provider.sampling),
+  stream: (provider, messages, onUsage, signal) => streamCustomProvider(toOpenAICompatible(provider), messages, onUsage, signal, provider.sampling),
+};
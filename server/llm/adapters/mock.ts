@@ -0,0 +1,10 @@
+import { callMock, streamMock } from "../mock";
+import type { ProviderAdapter } from "../registry";
+
+// Scripted offline provider backed by fixture files; see server/llm/mock.ts.
+export const mockAdapter: ProviderAdapter = {
+  kind: "mock",
+  capabilities: { streaming: true, vision: true, tools: false },
+  call: (provider, messages, signal, onThinking) => callMock(provider, messages, signal, onThinking),
+  stream: (provider, messages, onUsage, signal, onThinking) => streamMock(provider, messages, onUsage, signal, onThinking),
+};
@@ -0,0 +1,11 @@
+import { callOpenAI, callOpenAIWithTools, embedOpenAI, streamOpenAI } from "../providers";
+import type { ProviderAdapter } from "../registry";
+
+export const openaiAdapter: ProviderAdapter = {
+  kind: "openai",
+  capabilities: { streaming: true, vision: true, tools: true },
+  call: (provider, messages, signal, onThinking) => callOpenAI(provider.model, messages, signal, provider.sampling, onThinking),
+  stream: (provider, messages, onUsage, signal, onThinking) => streamOpenAI(provider.model, messages, onUsage, signal, provider.sampling, onThinking),
+  callWithTools: (provider, messages, tools, signal, onChunk) => callOpenAIWithTools(provider.model, messages, tools, signal, provider.sampling, onChunk),
+  embed: (_provider, texts, signal) => embedOpenAI(texts, signal),
+};
@@ -0,0 +1,9 @@
+import { callOpenRouter, streamOpenRouter } from "../providers";
+import type { ProviderAdapter } from "../registry";
+
+export const openrouterAdapter: ProviderAdapter = {
+  kind: "openrouter",
+  capabilities: { streaming: true, vision: true, tools: false },
+  call: (provider, messages, signal) => callOpenRouter(provider.model, messages, signal, provider.sampling),
+  stream: (provider, messages, onUsage, signal) => streamOpenRouter(provider.model, messages, onUsage, signal, provider.sampling),
+};
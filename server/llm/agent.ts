@@ -0,0 +1,163 @@
+import type { ProviderConfig, MessageContent, ReasoningStep, TokenUsage, ToolCall, ToolCallResponse } from "./providers";
+import { callProviderWithTools } from "./adapters";
+import { executeToolCall, getTool, listTools, type Tool } from "./tools";
+import { addUsage } from "./pricing";
+import { CostBudget } from "./budget";
+import { isTimeout, withTimeout } from "./timeouts";
+import { isRetryableError } from "./retry";
+
+export const DEFAULT_MAX_AGENT_TURNS = 8;
+
+export interface AgentLoopOptions {
+  tools?: Tool[];
+  maxTurns?: number;
+  onReasoningStep?: (step: ReasoningStep) => void;
+  // Called with each text delta as a turn streams, where the adapter can
+  // stream tool turns
+  onChunk?: (chunk: string, turn: number) => void;
+  signal?: AbortSignal;
+  // Stops the loop before a turn that would exceed a spending cap
+  budget?: CostBudget;
+  // Wall-clock limit per model call; a turn that exceeds it throws ExpertTimeoutError
+  attemptSeconds?: number;
+}
+
+export interface AgentLoopResult {
+  // Final assistant text, once the model answers without calling a tool
+  content: string;
+  // Output of the most recent tool call, if it succeeded
+  executionOutput?: string;
+  solved: boolean;
+  turns: number;
+  usage: TokenUsage;
+  error?: string;
+}
+
+function describeToolCall(call: ToolCall): string {
+  if (typeof call.arguments.code === "string") {
+    const code = call.arguments.code;
+    return `Calling ${call.name}:\n\`\`\`python\n${code.slice(0, 200)}${code.length > 200 ? '...' : ''}\n\`\`\``;
+  }
+  return `Calling ${call.name} with ${JSON.stringify(call.arguments).slice(0, 200)}`;
+}
+
+// Lets the model call registered tools until it answers in plain text. The
+// answer only counts as solved when the last tool call before it succeeded.
+export async function runAgentLoop(
+  provider: ProviderConfig,
+  messages: MessageContent[],
+  options: AgentLoopOptions = {}
+): Promise<AgentLoopResult> {
+  const { onReasoningStep, signal } = options;
+  const tools = options.tools ?? listTools();
+  const definitions = tools.map(t => t.definition);
+  const maxTurns = options.maxTurns ?? DEFAULT_MAX_AGENT_TURNS;
+  const budget = options.budget ?? new CostBudget();
+  const workingMessages = [...messages];
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let executionOutput: string | undefined;
+  let lastError = "";
+  let content = "";
+  let turns = 0;
+
+  while (turns < maxTurns && !signal?.aborted) {
+    if (!budget.canAfford(provider, workingMessages)) break;
+    turns++;
+
+    // A failed call costs the turn but not the run: the model is told and
+    // the usage of earlier turns stays on the result. Errors that retrying
+    // cannot fix (bad request, auth, invalid tool schema) end the run, since
+    // every remaining turn would fail the same way.
+    let response: ToolCallResponse;
+    try {
+      response = await budget.spend(provider, workingMessages, () =>
+        withTimeout(signal, "attempt", options.attemptSeconds ?? 0, (turnSignal) =>
+          callProviderWithTools(provider, workingMessages, definitions, {
+            onReasoningStep,
+            signal: turnSignal,
+            onChunk: options.onChunk ? (chunk) => options.onChunk!(chunk, turns) : undefined,
+          })
+        )
+      );
+    } catch (err: any) {
+      lastError = err.message;
+      if (signal?.aborted) break;
+      const fatal = !isTimeout(err) && !isRetryableError(err);
+      onReasoningStep?.({
+        provider: provider.id,
+        model: provider.model,
+        action: "error",
+        content: fatal ? `API error: ${err.message}. Not retryable, stopping.` : `API error: ${err.message}`,
+      });
+      if (fatal) break;
+      workingMessages.push({
+        role: "user",
+        content: `Error: The previous turn failed (${err.message}). Please continue solving the task.`
+      });
+      continue;
+    }
+    addUsage(usage, response.usage);
+    content = response.content;
+
+    if (response.toolCalls.length === 0) {
+      if (executionOutput !== undefined) {
+        return { content, executionOutput, solved: true, turns, usage };
+      }
+
+      onReasoningStep?.({
+        provider: provider.id,
+        model: provider.model,
+        action: "error",
+        content: `No tool call made. Retrying...`,
+        tokenUsage: response.usage,
+      });
+
+      workingMessages.push({ role: "assistant", content });
+      workingMessages.push({
+        role: "user",
+        content: `Error: You must verify your solution by calling a tool (${definitions.map(d => d.name).join(", ")}) before answering.`
+      });
+      continue;
+    }
+
+    workingMessages.push({ role: "assistant", content, toolCalls: response.toolCalls });
+
+    for (let i = 0; i < response.toolCalls.length; i++) {
+      const call = response.toolCalls[i];
+      onReasoningStep?.({
+        provider: provider.id,
+        model: provider.model,
+        action: "code",
+        content: describeToolCall(call),
+        tokenUsage: i === 0 ? response.usage : undefined,
+      });
+
+      const result = await executeToolCall(call, signal);
+
+      onReasoningStep?.({
+        provider: "executor",
+        model: getTool(call.name)?.label ?? call.name,
+        action: result.success ? "verify" : "error",
+        content: result.success ? `Code executed successfully:\n${result.output}` : `Execution failed: ${result.output}`,
+      });
+
+      workingMessages.push({ role: "tool", toolCallId: call.id, content: result.output });
+      if (result.success) {
+        executionOutput = result.output;
+      } else {
+        executionOutput = undefined;
+        lastError = result.output;
+      }
+    }
+  }
+
+  // Out of turns or budget: a successful last execution still stands as the answer.
+  return {
+    content,
+    executionOutput,
+    solved: executionOutput !== undefined && !signal?.aborted,
+    turns,
+    usage,
+    error: lastError || undefined,
+  };
+}
@@ -0,0 +1,141 @@
+import { DEFAULT_MAX_OUTPUT_TOKENS, type ProviderConfig, type MessageContent, type TokenUsage } from "./providers";
+import { estimateMessagesTokens } from "./context";
+import { addUsage, computeCost } from "./pricing";
+
+// USD caps; an unset cap is unlimited.
+export interface SpendingLimits {
+  perRequest?: number;
+  perConversation?: number;
+  perDay?: number;
+}
+
+export type BudgetScope = "request" | "conversation" | "day";
+
+export interface BudgetExceeded {
+  scope: BudgetScope;
+  limit: number;
+  // Spend counted against the cap so far, including calls still running
+  spent: number;
+  // Estimated cost of the call that was refused
+  estimate: number;
+}
+
+// Lowest share of the per-request cap the slider can select, so that 0%
+// still leaves room for a first attempt.
+export const MIN_REQUEST_BUDGET_SHARE = 0.1;
+
+// The Chat compute slider (0-100%) sets the per-request cap as a share of the
+// configured one. Without a configured per-request cap there is nothing to
+// scale and requests stay unlimited.
+export function scaleRequestLimit(limits: SpendingLimits, computeBudget?: number): SpendingLimits {
+  if (limits.perRequest === undefined) return limits;
+  if (computeBudget === undefined || !Number.isFinite(computeBudget)) return limits;
+  const share = Math.max(Math.min(Math.max(computeBudget, 0), 100) / 100, MIN_REQUEST_BUDGET_SHARE);
+  return { ...limits, perRequest: limits.perRequest * share };
+}
+
+// Worst case for one call: the whole prompt plus the full output allowance.
+export function estimateCallCost(provider: ProviderConfig, messages: MessageContent[]): number {
+  const outputTokens = (provider.sampling?.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS) +
+    (provider.sampling?.thinkingBudgetTokens ?? 0);
+  return computeCost(provider.model, {
+    inputTokens: estimateMessagesTokens(messages, provider.model),
+    outputTokens,
+  });
+}
+
+interface Cap {
+  scope: BudgetScope;
+  limit: number;
+  priorSpend: number;
+}
+
+// Tracks the spend of one request against the request, conversation and day
+// caps. Callers ask canAfford() before launching an attempt or expert and run
+// the call through spend(), which reserves the estimate while it is in flight
+// so parallel experts cannot overshoot together.
+export class CostBudget {
+  private caps: Cap[];
+  private spent = 0;
+  private reserved = 0;
+  private usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  private exceededInfo: BudgetExceeded | null = null;
+  private onExceeded?: (info: BudgetExceeded) => void;
+
+  constructor(
+    limits: SpendingLimits = {},
+    priorSpend: { conversation?: number; day?: number } = {},
+    onExceeded?: (info: BudgetExceeded) => void
+  ) {
+    const caps: Cap[] = [];
+    if (limits.perRequest !== undefined) caps.push({ scope: "request", limit: limits.perRequest, priorSpend: 0 });
+    if (limits.perConversation !== undefined) caps.push({ scope: "conversation", limit: limits.perConversation, priorSpend: priorSpend.conversation ?? 0 });
+    if (limits.perDay !== undefined) caps.push({ scope: "day", limit: limits.perDay, priorSpend: priorSpend.day ?? 0 });
+    this.caps = caps;
+    this.onExceeded = onExceeded;
+  }
+
+  get exceeded(): BudgetExceeded | null {
+    return this.exceededInfo;
+  }
+
+  get totalSpent(): number {
+    return this.spent;
+  }
+
+  // Usage of every call that completed so far, e.g. for a cancelled run
+  // whose orchestrator never reported its total.
+  get totalUsage(): TokenUsage {
+    return { ...this.usage };
+  }
+
+  // Once a cap has been hit no further calls are launched, so a run does not
+  // keep squeezing in cheaper attempts after reporting the stop.
+  canAfford(provider: ProviderConfig, messages: MessageContent[]): boolean {
+    if (this.exceededInfo) return false;
+    const estimate = estimateCallCost(provider, messages);
+    for (const cap of this.caps) {
+      const committed = cap.priorSpend + this.spent + this.reserved;
+      if (committed + estimate > cap.limit) {
+        this.exceededInfo = { scope: cap.scope, limit: cap.limit, spent: committed, estimate };
+        this.onExceeded?.(this.exceededInfo);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // For streamed calls, whose usage arrives after the last chunk.
+  charge(usage: TokenUsage): void {
+    this.spent += usage.cost ?? 0;
+    addUsage(this.usage, usage);
+  }
+
+  async spend<T extends { usage: TokenUsage }>(
+    provider: ProviderConfig,
+    messages: MessageContent[],
+    call: () => Promise<T>
+  ): Promise<T> {
+    const estimate = estimateCallCost(provider, messages);
+    this.reserved += estimate;
+    let usage: TokenUsage | undefined;
+    try {
+      const result = await call();
+      usage = result.usage;
+      return result;
+    } finally {
+      this.reserved -= estimate;
+      this.spent += usage?.cost ?? 0;
+      if (usage) addUsage(this.usage, usage);
+    }
+  }
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount > 0 && amount < 0.01 ? 4 : 2)}`;
+}
+
+export function describeBudgetExceeded(info: BudgetExceeded): string {
+  const scope = info.scope === "day" ? "Daily" : info.scope === "conversation" ? "Conversation" : "Request";
+  return `${scope} budget of ${formatUsd(info.limit)} reached (${formatUsd(info.spent)} spent, next call estimated at ${formatUsd(info.estimate)}).`;
+}
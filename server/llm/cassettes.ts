@@ -0,0 +1,175 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import type { ProviderConfig, MessageContent, TokenUsage, ThinkingTrace, ToolCall, ToolDefinition } from "./providers";
+import type { ProviderAdapter } from "./registry";
+
+export type CassetteMode = "off" | "record" | "replay";
+
+// LLM_CASSETTE_MODE=record captures every real provider response to
+// LLM_CASSETTE_DIR; replay serves them back without touching the network.
+export const CASSETTE_MODE: CassetteMode = parseCassetteMode(process.env.LLM_CASSETTE_MODE);
+export const CASSETTE_DIR = process.env.LLM_CASSETTE_DIR || path.resolve(process.cwd(), "server/llm/fixtures/cassettes");
+
+type CassetteOperation = "call" | "stream" | "callWithTools";
+
+interface Cassette {
+  kind: string;
+  model: string;
+  operation: CassetteOperation;
+  recordedAt: string;
+  content: string;
+  // Stream chunks exactly as the provider yielded them
+  chunks?: string[];
+  toolCalls?: ToolCall[];
+  thinking?: ThinkingTrace[];
+  usage: TokenUsage;
+}
+
+export class CassetteNotFoundError extends Error {
+  constructor(file: string) {
+    super(`No cassette recorded for this request: ${file}`);
+    this.name = "CassetteNotFoundError";
+    Object.setPrototypeOf(this, CassetteNotFoundError.prototype);
+  }
+}
+
+function parseCassetteMode(value: string | undefined): CassetteMode {
+  return value === "record" || value === "replay" ? value : "off";
+}
+
+// Keyed on everything that shapes the response; credentials and endpoints
+// are left out so recordings are portable between machines.
+export function cassetteKey(
+  operation: CassetteOperation,
+  provider: ProviderConfig,
+  messages: MessageContent[],
+  tools?: ToolDefinition[]
+): string {
+  return createHash("sha256")
+    .update(JSON.stringify({
+      operation,
+      model: provider.model,
+      sampling: provider.sampling ?? {},
+      messages,
+      tools: tools ?? null,
+    }))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+function cassettePath(kind: string, key: string): string {
+  return path.join(CASSETTE_DIR, kind, `${key}.json`);
+}
+
+function readCassette(file: string): Cassette {
+  if (!fs.existsSync(file)) {
+    throw new CassetteNotFoundError(file);
+  }
+  return JSON.parse(fs.readFileSync(file, "utf-8")) as Cassette;
+}
+
+function writeCassette(file: string, cassette: Cassette): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(cassette, null, 2), "utf-8");
+}
+
+export function withCassettes(adapter: ProviderAdapter, mode: CassetteMode = CASSETTE_MODE): ProviderAdapter {
+  if (mode === "off") return adapter;
+
+  const fileFor = (operation: CassetteOperation, provider: ProviderConfig, messages: MessageContent[], tools?: ToolDefinition[]) =>
+    cassettePath(adapter.kind, cassetteKey(operation, provider, messages, tools));
+
+  const cassetteFor = (operation: CassetteOperation, provider: ProviderConfig, fields: Partial<Cassette>): Cassette => ({
+    kind: adapter.kind,
+    model: provider.model,
+    operation,
+    recordedAt: new Date().toISOString(),
+    content: "",
+    usage: { inputTokens: 0, outputTokens: 0 },
+    ...fields,
+  });
+
+  const wrapped: ProviderAdapter = {
+    ...adapter,
+
+    async call(provider, messages, signal, onThinking) {
+      const file = fileFor("call", provider, messages);
+      if (mode === "replay") {
+        const cassette = readCassette(file);
+        cassette.thinking?.forEach(trace => onThinking?.(trace));
+        return { content: cassette.content, usage: cassette.usage };
+      }
+
+      const thinking: ThinkingTrace[] = [];
+      const result = await adapter.call(provider, messages, signal, (trace) => {
+        thinking.push(trace);
+        onThinking?.(trace);
+      });
+      writeCassette(file, cassetteFor("call", provider, { ...result, thinking }));
+      return result;
+    },
+
+    async *stream(provider, messages, onUsage, signal, onThinking) {
+      const file = fileFor("stream", provider, messages);
+      if (mode === "replay") {
+        const cassette = readCassette(file);
+        cassette.thinking?.forEach(trace => onThinking?.(trace));
+        try {
+          for (const chunk of cassette.chunks ?? []) {
+            signal?.throwIfAborted();
+            yield chunk;
+          }
+        } finally {
+          onUsage?.(cassette.usage);
+        }
+        return;
+      }
+
+      const chunks: string[] = [];
+      const thinking: ThinkingTrace[] = [];
+      let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+      const source = adapter.stream(
+        provider,
+        messages,
+        (u) => {
+          usage = u;
+          onUsage?.(u);
+        },
+        signal,
+        (trace) => {
+          thinking.push(trace);
+          onThinking?.(trace);
+        }
+      );
+      for await (const chunk of source) {
+        chunks.push(chunk);
+        yield chunk;
+      }
+      // Only complete streams are recorded
+      writeCassette(file, cassetteFor("stream", provider, { content: chunks.join(""), chunks, thinking, usage }));
+    },
+  };
+
+  if (adapter.callWithTools) {
+    const callWithTools = adapter.callWithTools.bind(adapter);
+    wrapped.callWithTools = async (provider, messages, tools, signal, onChunk) => {
+      const file = fileFor("callWithTools", provider, messages, tools);
+      if (mode === "replay") {
+        const cassette = readCassette(file);
+        if (cassette.content) onChunk?.(cassette.content);
+        return { content: cassette.content, toolCalls: cassette.toolCalls ?? [], usage: cassette.usage };
+      }
+
+      const result = await callWithTools(provider, messages, tools, signal, onChunk);
+      writeCassette(file, cassetteFor("callWithTools", provider, result));
+      return result;
+    };
+  }
+
+  // Embeddings are not recorded, so replayed runs cluster with the local
+  // similarity backend instead of reaching the network.
+  if (mode === "replay") delete wrapped.embed;
+
+  return wrapped;
+}
@@ -0,0 +1,70 @@
+import { DEFAULT_MAX_AGENT_TURNS } from "./agent";
+
+// Concrete orchestration knobs derived from the compute slider (0-100%).
+export interface ComputePlan {
+  // Slider value the plan was derived from; undefined keeps the defaults
+  computeBudget?: number;
+  // Code-block attempts per expert (and for the single-model solver)
+  maxAttempts: number;
+  // Agent-loop turns for tool-calling providers
+  maxAgentTurns: number;
+  // Independent self-consistency samples each expert runs in parallel
+  samplesPerExpert: number;
+  // Propose → critique → refine rounds, capped by the configured rounds
+  refinementRounds: number;
+  // Run the quant pipeline on every enabled provider, or only the first
+  quantAllProviders: boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+// Slider bands: below LOW the run is trimmed, from HIGH it goes deeper, and
+// everything in between (including Chat's default of 50%) keeps the
+// historical defaults.
+const LOW_COMPUTE_BUDGET = 25;
+const HIGH_COMPUTE_BUDGET = 90;
+
+export function planCompute(computeBudget: number | undefined, configuredRefinementRounds: number): ComputePlan {
+  const defaults: ComputePlan = {
+    maxAttempts: DEFAULT_MAX_ATTEMPTS,
+    maxAgentTurns: DEFAULT_MAX_AGENT_TURNS,
+    samplesPerExpert: 1,
+    refinementRounds: configuredRefinementRounds,
+    quantAllProviders: true,
+  };
+  if (computeBudget === undefined || !Number.isFinite(computeBudget)) return defaults;
+
+  const budget = Math.round(Math.min(Math.max(computeBudget, 0), 100));
+  if (budget < LOW_COMPUTE_BUDGET) {
+    return {
+      computeBudget: budget,
+      maxAttempts: 2,
+      maxAgentTurns: 4,
+      samplesPerExpert: 1,
+      refinementRounds: Math.min(configuredRefinementRounds, 1),
+      quantAllProviders: false,
+    };
+  }
+  if (budget >= HIGH_COMPUTE_BUDGET) {
+    return {
+      ...defaults,
+      computeBudget: budget,
+      maxAttempts: DEFAULT_MAX_ATTEMPTS + 1,
+      maxAgentTurns: DEFAULT_MAX_AGENT_TURNS + 4,
+      samplesPerExpert: budget === 100 ? 3 : 2,
+    };
+  }
+  return { ...defaults, computeBudget: budget };
+}
+
+export function describeComputePlan(plan: ComputePlan): string {
+  const source = plan.computeBudget === undefined ? "default compute" : `compute budget ${plan.computeBudget}%`;
+  const parts = [
+    `${plan.maxAttempts} attempt(s) per expert`,
+    `${plan.maxAgentTurns} tool turn(s)`,
+    `${plan.samplesPerExpert} sample(s) per expert`,
+    plan.refinementRounds > 0 ? `${plan.refinementRounds} refinement round(s)` : "no refinement",
+    plan.quantAllProviders ? "quant pipeline on all providers" : "quant pipeline on the first provider",
+  ];
+  return `Plan for ${source}: ${parts.join(", ")}`;
+}
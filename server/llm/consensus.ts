@@ -1,4 +1,5 @@
-import type { ExpertResult, ConsensusGroup, ConsensusResult, TaskType } from "./types";
+import type { ExpertResult, ExpertAgreement, ClusterCentroid, ConsensusGroup, ConsensusResult, TaskType } from "./types";
+import { TfIdfSimilarity, type SimilarityBackend, type SimilarityThresholds } from "./similarity";
 
 export function canonicalizeAnswer(answer: string): string {
   let canonical = answer
@@ -36,40 +37,6 @@ export function extractFinalAnswer(response: string): string {
   return response.slice(0, 200);
 }
 
-function levenshteinDistance(a: string, b: string): number {
-  const matrix: number[][] = [];
-
-  for (let i = 0; i <= b.length; i++) {
-    matrix[i] = [i];
-  }
-  for (let j = 0; j <= a.length; j++) {
-    matrix[0][j] = j;
-  }
-
-  for (let i = 1; i <= b.length; i++) {
-    for (let j = 1; j <= a.length; j++) {
-      if (b.charAt(i - 1) === a.charAt(j - 1)) {
-        matrix[i][j] = matrix[i - 1][j - 1];
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j - 1] + 1,
-          matrix[i][j - 1] + 1,
-          matrix[i - 1][j] + 1
-        );
-      }
-    }
-  }
-
-  return matrix[b.length][a.length];
-}
-
-function stringSimilarity(a: string, b: string): number {
-  const maxLen = Math.max(a.length, b.length);
-  if (maxLen === 0) return 1;
-  const distance = levenshteinDistance(a, b);
-  return 1 - distance / maxLen;
-}
-
 export class ExactMatchAggregator {
   aggregate(results: ExpertResult[], taskType: TaskType): ConsensusResult {
     const groups = new Map<string, ExpertResult[]>();
@@ -127,36 +94,69 @@ export class ExactMatchAggregator {
   }
 }
 
-export class SemanticAggregator {
-  private similarityThreshold = 0.7;
+export interface SemanticAggregatorOptions {
+  // Defaults to the offline TF-IDF backend
+  backend?: SimilarityBackend;
+  // Override the default clustering threshold of the backend that produced
+  // the scores, so a fallback to TF-IDF does not inherit an embedding threshold
+  thresholds?: SimilarityThresholds;
+}
 
-  aggregate(results: ExpertResult[], taskType: TaskType): ConsensusResult {
-    const clusters: ExpertResult[][] = [];
+// Clusters answers whose average similarity to a cluster's members reaches
+// the threshold. Similarity comes from a pluggable backend; see similarity.ts.
+export class SemanticAggregator {
+  private backend: SimilarityBackend;
+  private thresholds: SimilarityThresholds;
 
-    for (const result of results) {
-      let addedToCluster = false;
+  constructor(options: SemanticAggregatorOptions = {}) {
+    this.backend = options.backend ?? new TfIdfSimilarity();
+    this.thresholds = options.thresholds ?? {};
+  }
 
-      for (const cluster of clusters) {
-        const representative = cluster[0];
-        const similarity = stringSimilarity(
-          result.canonicalAnswer,
-          representative.canonicalAnswer
-        );
+  async prepare(results: ExpertResult[], signal?: AbortSignal): Promise<void> {
+    await this.backend.prepare?.(results.map(r => r.canonicalAnswer), signal);
+  }
 
-        if (similarity >= this.similarityThreshold) {
-          cluster.push(result);
-          addedToCluster = true;
-          break;
+  aggregate(results: ExpertResult[], taskType: TaskType): ConsensusResult {
+    const { kind, backend, matrix, defaultThreshold } = this.backend.similarityMatrix(results.map(r => r.canonicalAnswer));
+    const threshold = this.thresholds[kind] ?? defaultThreshold;
+    const indexClusters: number[][] = [];
+    const meanSimilarity = (index: number, members: number[]) =>
+      members.reduce((sum, member) => sum + matrix[index][member], 0) / members.length;
+
+    results.forEach((_, index) => {
+      let best: number[] | null = null;
+      let bestSimilarity = threshold;
+      for (const cluster of indexClusters) {
+        const similarity = meanSimilarity(index, cluster);
+        if (similarity >= bestSimilarity) {
+          best = cluster;
+          bestSimilarity = similarity;
         }
       }
-
-      if (!addedToCluster) {
-        clusters.push([result]);
+      if (best) best.push(index);
+      else indexClusters.push([index]);
+    });
+
+    const centroidOf = (cluster: number[]): ClusterCentroid => {
+      let centroid = cluster[0];
+      let cohesion = 1;
+      if (cluster.length > 1) {
+        cohesion = -1;
+        for (const index of cluster) {
+          const similarity = meanSimilarity(index, cluster.filter(other => other !== index));
+          if (similarity > cohesion) {
+            centroid = index;
+            cohesion = similarity;
+          }
+        }
       }
-    }
-
-    const consensusGroups: ConsensusGroup[] = clusters
-      .map(cluster => {
+      const result = results[centroid];
+      return { providerId: result.providerId, providerName: result.providerName, sample: result.sample, cohesion };
+    };
+    const consensusGroups: ConsensusGroup[] = indexClusters
+      .map(indices => {
+        const cluster = indices.map(i => results[i]);
         const bestResult = cluster.reduce((best, curr) => 
           curr.success && !best.success ? curr : 
           curr.response.length > best.response.length ? curr : best
@@ -166,7 +166,8 @@ export class SemanticAggregator {
           canonicalAnswer: bestResult.canonicalAnswer,
           responses: cluster,
           voteCount: cluster.length,
-          averageSuccess: cluster.filter(r => r.success).length / cluster.length
+          averageSuccess: cluster.filter(r => r.success).length / cluster.length,
+          centroid: centroidOf(indices),
         };
       })
       .sort((a, b) => {
@@ -190,7 +191,13 @@ export class SemanticAggregator {
       allGroups: consensusGroups,
       totalExperts: results.length,
       agreement,
-      summary
+      summary,
+      similarity: {
+        backend,
+        threshold,
+        experts: results.map(r => r.providerName),
+        matrix: matrix.map(row => row.map(value => Math.round(value * 1000) / 1000)),
+      },
     };
   }
 
@@ -209,3 +216,88 @@ export class SemanticAggregator {
     return `Diverse perspectives from ${total} models across ${groups.length} clusters. Showing most supported viewpoint.`;
   }
 }
+
+export interface ConsensusAggregator {
+  // Fetches anything aggregate() needs asynchronously, e.g. embeddings
+  prepare?(results: ExpertResult[], signal?: AbortSignal): Promise<void>;
+  aggregate(results: ExpertResult[], taskType: TaskType): ConsensusResult;
+}
+
+// Votes the leading group needs before the remaining experts are cut short:
+// a strict majority by default, or the configured share (0-1] of all experts.
+export function quorumVotes(totalExperts: number, quorum?: number | null): number {
+  if (!quorum || !Number.isFinite(quorum) || quorum <= 0) {
+    return Math.floor(totalExperts / 2) + 1;
+  }
+  return Math.min(totalExperts, Math.max(1, Math.ceil(quorum * totalExperts - 1e-9)));
+}
+
+// Re-runs an aggregator over the successful results each time an expert
+// finishes, and reports a consensus as soon as the leading group holds the
+// quorum.
+export class IncrementalConsensus {
+  private aggregator: ConsensusAggregator;
+  private taskType: TaskType;
+  private results: ExpertResult[] = [];
+  readonly votesNeeded: number;
+
+  constructor(aggregator: ConsensusAggregator, taskType: TaskType, totalExperts: number, quorum?: number | null) {
+    this.aggregator = aggregator;
+    this.taskType = taskType;
+    this.votesNeeded = quorumVotes(totalExperts, quorum);
+  }
+
+  add(result: ExpertResult): ConsensusResult | null {
+    this.results.push(result);
+    const successful = this.results.filter(r => r.success);
+    if (successful.length < this.votesNeeded) return null;
+
+    const consensus = this.aggregator.aggregate(successful, this.taskType);
+    return consensus.winningGroup.voteCount >= this.votesNeeded ? consensus : null;
+  }
+}
+
+// Per-expert view of a self-consistency run: how many of each expert's
+// samples voted, how many landed in the winning group and how often the
+// expert agreed with itself. `results` holds every sample, voting or not.
+export function measureExpertAgreement(
+  consensus: ConsensusResult,
+  results: ExpertResult[],
+  experts: { id: string; name: string }[]
+): ExpertAgreement[] {
+  const groupOf = new Map<ExpertResult, ConsensusGroup>();
+  for (const group of consensus.allGroups) {
+    for (const response of group.responses) groupOf.set(response, group);
+  }
+
+  return experts.map(expert => {
+    const samples = results.filter(r => r.providerId === expert.id);
+    const votes = samples.map(r => groupOf.get(r)).filter((g): g is ConsensusGroup => g !== undefined);
+    const perGroup = new Map<ConsensusGroup, number>();
+    for (const group of votes) perGroup.set(group, (perGroup.get(group) ?? 0) + 1);
+    const largest = Math.max(0, ...Array.from(perGroup.values()));
+    const inWinning = perGroup.get(consensus.winningGroup) ?? 0;
+
+    return {
+      providerId: expert.id,
+      providerName: expert.name,
+      samples: samples.length,
+      voted: votes.length,
+      consensusRate: votes.length > 0 ? inWinning / votes.length : 0,
+      selfAgreement: votes.length > 0 ? largest / votes.length : 0,
+    };
+  });
+}
+
+export function describeSampleVotes(consensus: ConsensusResult, agreement: ExpertAgreement[]): string {
+  const votes = consensus.allGroups.map((group, i) => {
+    const answer = group.canonicalAnswer.length > 80 ? `${group.canonicalAnswer.slice(0, 77)}...` : group.canonicalAnswer;
+    const voters = group.responses.map(r => r.providerName).join(", ");
+    return `${i === 0 ? "✓" : "·"} ${group.voteCount} vote(s) "${answer}": ${voters}`;
+  });
+  const rates = agreement.map(a =>
+    `${a.providerName}: ${a.voted}/${a.samples} sample(s) voted, ` +
+    `${Math.round(a.consensusRate * 100)}% with consensus, ${Math.round(a.selfAgreement * 100)}% self-agreement`
+  );
+  return [`Sample votes:`, ...votes, `Per-expert agreement:`, ...rates].join("\n");
+}
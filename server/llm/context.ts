@@ -0,0 +1,189 @@
+import { DEFAULT_MAX_OUTPUT_TOKENS, type ProviderConfig, type MessageContent } from "./providers";
+
+// Context windows (input + output tokens) for the models offered in settings;
+// the first matching pattern wins. A provider's own contextLength overrides.
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/gpt-5/, 400_000],
+  [/gpt-4o|gpt-4\.1|o\d/, 128_000],
+  [/claude/, 200_000],
+  [/gemini/, 1_048_576],
+  [/llama-3/, 131_072],
+  [/mistral-(large|small)/, 131_072],
+  [/qwen-2\.5/, 32_768],
+  [/deepseek/, 163_840],
+  [/grok/, 131_072],
+];
+
+export const DEFAULT_CONTEXT_WINDOW = 32_768;
+
+// Keep a margin for estimation error; these are heuristics, not a tokenizer.
+const SAFETY_MARGIN = 0.05;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const MIN_TRUNCATED_CHARS = 200;
+
+export function getContextWindow(provider: ProviderConfig): number {
+  if (provider.contextLength) return provider.contextLength;
+  const match = CONTEXT_WINDOWS.find(([pattern]) => pattern.test(provider.model));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+// Claude's tokenizer produces noticeably more tokens per character than the
+// GPT and Gemini ones.
+function charsPerToken(model: string): number {
+  return /claude/.test(model) ? 3.5 : 4;
+}
+
+// Approximate cost of one image at the size the vendors downscale to.
+function tokensPerImage(model: string): number {
+  if (/claude/.test(model)) return 1600;
+  if (/gemini/.test(model)) return 258;
+  return 765;
+}
+
+export function estimateTokens(text: string, model: string): number {
+  return Math.ceil(text.length / charsPerToken(model));
+}
+
+export function estimateMessageTokens(message: MessageContent, model: string): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content, model);
+  tokens += (message.images?.length || 0) * tokensPerImage(model);
+  if (message.toolCalls) {
+    tokens += estimateTokens(JSON.stringify(message.toolCalls), model);
+  }
+  return tokens;
+}
+
+export function estimateMessagesTokens(messages: MessageContent[], model: string): number {
+  return messages.reduce((sum, m) => sum + estimateMessageTokens(m, model), 0);
+}
+
+export interface ContextFit {
+  messages: MessageContent[];
+  changed: boolean;
+  originalTokens: number;
+  estimatedTokens: number;
+  budget: number;
+  contextWindow: number;
+  droppedMessages: number;
+  removedImages: number;
+  truncatedMessages: number;
+}
+
+function truncateMiddle(content: string, maxChars: number): string {
+  if (content.length <= maxChars) return content;
+  const keep = Math.max(maxChars, MIN_TRUNCATED_CHARS);
+  const head = Math.ceil(keep * 0.6);
+  const tail = keep - head;
+  return `${content.slice(0, head)}\n\n[... ${content.length - keep} characters truncated to fit the context window ...]\n\n${content.slice(content.length - tail)}`;
+}
+
+// Trims a conversation to fit the provider's window minus the output
+// allowance. In order: drop the oldest turns before the current request
+// (keeping tool calls with their results), strip images from older
+// messages, then truncate the largest messages in the middle. System
+// messages and the current request are only ever truncated.
+export function fitToContext(provider: ProviderConfig, messages: MessageContent[]): ContextFit {
+  const model = provider.model;
+  const contextWindow = getContextWindow(provider);
+  const reserved = (provider.sampling?.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS) +
+    (provider.sampling?.thinkingBudgetTokens ?? 0);
+  const budget = Math.max(0, Math.floor((contextWindow - reserved) * (1 - SAFETY_MARGIN)));
+  const originalTokens = estimateMessagesTokens(messages, model);
+
+  const fit: ContextFit = {
+    messages,
+    changed: false,
+    originalTokens,
+    estimatedTokens: originalTokens,
+    budget,
+    contextWindow,
+    droppedMessages: 0,
+    removedImages: 0,
+    truncatedMessages: 0,
+  };
+  if (originalTokens <= budget) return fit;
+
+  let working = messages.map(m => ({ ...m }));
+  let total = originalTokens;
+
+  // Everything from the last user message on is the turn being answered.
+  const lastUserIndex = working.map(m => m.role).lastIndexOf("user");
+  const protectedFrom = lastUserIndex === -1 ? working.length - 1 : lastUserIndex;
+  let current = working.slice(protectedFrom);
+  let history = working.slice(0, protectedFrom);
+
+  while (total > budget) {
+    const index = history.findIndex(m => m.role !== "system");
+    if (index === -1) break;
+    let end = index + 1;
+    while (end < history.length && history[end].role === "tool") end++;
+    for (const dropped of history.slice(index, end)) {
+      total -= estimateMessageTokens(dropped, model);
+      fit.droppedMessages++;
+    }
+    history = [...history.slice(0, index), ...history.slice(end)];
+  }
+
+  if (fit.droppedMessages > 0) {
+    // The remaining history has to resume on a user turn.
+    let first = history.findIndex(m => m.role !== "system");
+    while (first !== -1 && history[first].role !== "user") {
+      total -= estimateMessageTokens(history[first], model);
+      fit.droppedMessages++;
+      history = [...history.slice(0, first), ...history.slice(first + 1)];
+      first = history.findIndex(m => m.role !== "system");
+    }
+
+    const note = `[${fit.droppedMessages} earlier message(s) omitted to fit the context window]`;
+    const systemIndex = history.findIndex(m => m.role === "system");
+    if (systemIndex === -1) {
+      history.unshift({ role: "system", content: note });
+    } else {
+      history[systemIndex] = { ...history[systemIndex], content: `${history[systemIndex].content}\n\n${note}` };
+    }
+    total = estimateMessagesTokens([...history, ...current], model);
+  }
+
+  working = [...history, ...current];
+  const lastUser = working.map(m => m.role).lastIndexOf("user");
+
+  for (let i = 0; i < working.length && total > budget; i++) {
+    const images = working[i].images?.length || 0;
+    if (i !== lastUser && images > 0) {
+      working[i] = { ...working[i], images: undefined };
+      total -= images * tokensPerImage(model);
+      fit.removedImages += images;
+    }
+  }
+
+  while (total > budget) {
+    let largest = -1;
+    for (let i = 0; i < working.length; i++) {
+      if (working[i].content.length > MIN_TRUNCATED_CHARS * 2 &&
+          (largest === -1 || working[i].content.length > working[largest].content.length)) {
+        largest = i;
+      }
+    }
+    if (largest === -1) break;
+
+    const message = working[largest];
+    const excessChars = Math.ceil((total - budget) * charsPerToken(model)) + 200;
+    const truncated = truncateMiddle(message.content, message.content.length - excessChars);
+    if (truncated.length >= message.content.length) break;
+
+    working[largest] = { ...message, content: truncated };
+    fit.truncatedMessages++;
+    total = estimateMessagesTokens(working, model);
+  }
+
+  return { ...fit, messages: working, changed: true, estimatedTokens: total };
+}
+
+export function describeContextFit(provider: ProviderConfig, fit: ContextFit): string {
+  const actions: string[] = [];
+  if (fit.droppedMessages > 0) actions.push(`dropped ${fit.droppedMessages} earlier message(s)`);
+  if (fit.removedImages > 0) actions.push(`removed ${fit.removedImages} older image(s)`);
+  if (fit.truncatedMessages > 0) actions.push(`truncated ${fit.truncatedMessages} long message(s)`);
+  const over = fit.estimatedTokens > fit.budget ? " Still over budget; the provider may reject the request." : "";
+  return `Context for ${provider.name} (${provider.model}) was ~${fit.originalTokens.toLocaleString()} tokens, over its ${fit.budget.toLocaleString()}-token input budget (${fit.contextWindow.toLocaleString()} window minus output allowance): ${actions.join(", ") || "no trimming possible"}. Now ~${fit.estimatedTokens.toLocaleString()} tokens.${over}`;
+}
@@ -0,0 +1,111 @@
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+// Checks user-supplied base URLs before the server fetches them, so the
+// discovery and test routes cannot be pointed at internal services or cloud
+// metadata endpoints. Hosts listed in PROVIDER_HOST_ALLOWLIST (comma
+// separated, e.g. "192.168.1.20,gpu-box.lan") are always allowed.
+
+export class EndpointNotAllowedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EndpointNotAllowedError";
+    Object.setPrototypeOf(this, EndpointNotAllowedError.prototype);
+  }
+}
+
+function allowedHosts(): string[] {
+  return (process.env.PROVIDER_HOST_ALLOWLIST || "")
+    .split(",")
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function ipv4Octets(address: string): number[] | null {
+  const v4 = address.replace(/^::ffff:/i, "");
+  return isIP(v4) === 4 ? v4.split(".").map(Number) : null;
+}
+
+function isLoopback(address: string): boolean {
+  const octets = ipv4Octets(address);
+  return octets ? octets[0] === 127 : address === "::1";
+}
+
+// Private, link-local (including 169.254.169.254 metadata), shared, unspecified
+// and multicast ranges
+function isInternal(address: string): boolean {
+  const octets = ipv4Octets(address);
+  if (octets) {
+    const [a, b] = octets;
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168);
+  }
+  const v6 = address.toLowerCase();
+  return v6 === "::" || v6 === "::1" || /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || v6.startsWith("ff");
+}
+
+// Local model servers must be on this machine (or allowlisted); provider
+// endpoints may also be public hosts. Every address the name resolves to is
+// checked.
+export async function assertAllowedEndpoint(baseUrl: string, options: { allowPublic: boolean }): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(baseUrl.trim());
+  } catch {
+    throw new EndpointNotAllowedError(`Invalid URL: ${baseUrl}`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new EndpointNotAllowedError(`Only http and https endpoints are allowed, not ${url.protocol}`);
+  }
+  if (url.username || url.password) {
+    throw new EndpointNotAllowedError("Endpoints must not embed credentials");
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (allowedHosts().includes(host)) return url;
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+  } catch {
+    throw new EndpointNotAllowedError(`Cannot resolve ${host}`);
+  }
+
+  const allowed = addresses.length > 0 && addresses.every(address =>
+    isLoopback(address) || (options.allowPublic && !isInternal(address))
+  );
+  if (!allowed) {
+    throw new EndpointNotAllowedError(options.allowPublic
+      ? `${host} is a private or link-local address; add it to PROVIDER_HOST_ALLOWLIST to use it`
+      : `${host} is not a local address; add it to PROVIDER_HOST_ALLOWLIST to use it`);
+  }
+  return url;
+}
+
+// Reads a JSON body, giving up once it exceeds maxBytes.
+export async function readJsonLimited(response: Response, maxBytes: number): Promise<any> {
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > maxBytes) {
+    throw new Error(`Response larger than ${maxBytes} bytes`);
+  }
+  if (!response.body) return null;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Response larger than ${maxBytes} bytes`);
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return JSON.parse(text + decoder.decode());
+}
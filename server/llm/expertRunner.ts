@@ -1,30 +1,93 @@
-import { spawn } from "child_process";
-import * as fs from "fs";
-import * as path from "path";
-import * as os from "os";
-import type { ExpertConfig, ExpertResult } from "./types";
+import type { ExpertConfig, ExpertResult, ExpertStreamEvent } from "./types";
 import type { MessageContent, TokenUsage, ReasoningStep } from "./providers";
-import { streamOpenAI, streamAnthropic, streamOpenRouter, streamCustomProvider } from "./providers";
+import { collectStream, supportsTools } from "./adapters";
+import { executePython } from "./sandbox";
+import { runAgentLoop } from "./agent";
 import { canonicalizeAnswer, extractFinalAnswer } from "./consensus";
+import { addUsage } from "./pricing";
+import { CostBudget } from "./budget";
+import { Watchdog, isTimeout, resolveTimeouts, withTimeout } from "./timeouts";
 
 export class ExpertRunner {
   private config: ExpertConfig;
-
-  constructor(config: ExpertConfig) {
+  private budget: CostBudget;
+  private onEvent?: (event: ExpertStreamEvent) => void;
+
+  constructor(
+    config: ExpertConfig,
+    budget: CostBudget = new CostBudget(),
+    onEvent?: (event: ExpertStreamEvent) => void
+  ) {
     this.config = config;
+    this.budget = budget;
+    this.onEvent = onEvent;
+  }
+
+  private emit(event: Omit<ExpertStreamEvent, "providerId" | "providerName" | "model">): void {
+    this.onEvent?.({
+      ...event,
+      providerId: this.config.id,
+      providerName: this.config.name,
+      model: this.config.model,
+      sample: this.config.sample,
+    });
   }
 
+  // Reasoning steps double as status lines on the expert's live stream.
+  private reportProgress(
+    onProgress: ((step: ReasoningStep) => void) | undefined,
+    attempt: () => number
+  ): (step: ReasoningStep) => void {
+    return (step) => {
+      onProgress?.(step);
+      this.emit({ type: "expert_progress", attempt: attempt(), content: step.content });
+    };
+  }
+
+  // Every run ends here, so this is also where results get their sample index.
+  private finish(result: ExpertResult): ExpertResult {
+    if (this.config.sample !== undefined) result.sample = this.config.sample;
+    this.emit(result.success
+      ? { type: "expert_complete", result }
+      : { type: "expert_error", content: result.error, result });
+    return result;
+  }
+
+  // The expert deadline covers every attempt and code run; when it passes the
+  // expert stops with a failed, timed-out result.
   async run(
     messages: MessageContent[],
-    onProgress?: (step: ReasoningStep) => void
+    onProgress?: (step: ReasoningStep) => void,
+    signal?: AbortSignal
+  ): Promise<ExpertResult> {
+    const watchdog = new Watchdog(signal, "expert", resolveTimeouts(this.config).expertSeconds);
+    try {
+      return await this.runExpert(messages, onProgress, watchdog.signal);
+    } finally {
+      watchdog.clear();
+    }
+  }
+
+  private async runExpert(
+    messages: MessageContent[],
+    onProgress?: (step: ReasoningStep) => void,
+    signal?: AbortSignal
   ): Promise<ExpertResult> {
+    this.emit({ type: "expert_started" });
+    if (supportsTools(this.config)) {
+      return this.finish(await this.runWithTools(messages, onProgress, signal));
+    }
+
     const maxAttempts = this.config.maxRetries || 5;
     let attempts = 0;
+    onProgress = this.reportProgress(onProgress, () => attempts);
     let solved = false;
     let accumulatedUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
     let finalResponse = "";
+    let lastResponse = "";
     let executionOutput = "";
     let lastError = "";
+    let timedOut = false;
 
     const workingMessages = [...messages];
 
@@ -35,7 +98,11 @@ export class ExpertRunner {
       content: `Expert ${this.config.name} starting (max ${maxAttempts} attempts)`,
     });
 
-    while (attempts < maxAttempts && !solved) {
+    while (attempts < maxAttempts && !solved && !signal?.aborted) {
+      if (!this.budget.canAfford(this.config, workingMessages)) {
+        lastError = lastError || "Spending budget reached";
+        break;
+      }
       attempts++;
 
       onProgress?.({
@@ -46,10 +113,11 @@ export class ExpertRunner {
       });
 
       try {
-        const { content: response, usage } = await this.collectStreamedResponse(workingMessages);
+        const attempt = attempts;
+        const { content: response, usage } = await this.collectStreamedResponse(workingMessages, onProgress, signal, attempt);
 
-        accumulatedUsage.inputTokens += usage.inputTokens;
-        accumulatedUsage.outputTokens += usage.outputTokens;
+        addUsage(accumulatedUsage, usage);
+        lastResponse = response;
 
         const code = this.extractPythonCode(response);
 
@@ -69,7 +137,7 @@ export class ExpertRunner {
           continue;
         }
 
-        const execResult = await this.executePython(code);
+        const execResult = await executePython(code, signal);
 
         if (execResult.success) {
           onProgress?.({
@@ -84,6 +152,7 @@ export class ExpertRunner {
           executionOutput = execResult.output;
         } else {
           lastError = execResult.output;
+          timedOut = false;
           onProgress?.({
             provider: this.config.id,
             model: this.config.model,
@@ -99,6 +168,8 @@ export class ExpertRunner {
         }
       } catch (err: any) {
         lastError = err.message;
+        timedOut = isTimeout(err);
+        if (signal?.aborted) break;
         onProgress?.({
           provider: this.config.id,
           model: this.config.model,
@@ -108,30 +179,110 @@ export class ExpertRunner {
       }
     }
 
+    if (!solved && signal?.aborted) {
+      lastError = (signal.reason as Error)?.message || "Cancelled";
+      timedOut = isTimeout(signal.reason);
+    }
+
     const canonicalAnswer = solved 
       ? canonicalizeAnswer(executionOutput)
       : canonicalizeAnswer(finalResponse || lastError);
 
-    return {
+    return this.finish({
       providerId: this.config.id,
       providerName: this.config.name,
       model: this.config.model,
-      response: solved ? this.formatSuccessResponse(finalResponse, executionOutput) : finalResponse,
+      response: solved ? this.formatSuccessResponse(finalResponse, executionOutput) : lastResponse,
       canonicalAnswer,
       success: solved,
       iterations: attempts,
       usage: accumulatedUsage,
       executionOutput: solved ? executionOutput : undefined,
-      error: solved ? undefined : lastError
-    };
+      error: solved ? undefined : lastError,
+      timedOut: !solved && timedOut ? true : undefined
+    });
+  }
+
+  private async runWithTools(
+    messages: MessageContent[],
+    onProgress?: (step: ReasoningStep) => void,
+    signal?: AbortSignal
+  ): Promise<ExpertResult> {
+    let turn = 0;
+    onProgress = this.reportProgress(onProgress, () => turn);
+    onProgress({
+      provider: this.config.id,
+      model: this.config.model,
+      action: "think",
+      content: `Expert ${this.config.name} starting with tool calling`,
+    });
+
+    try {
+      const result = await runAgentLoop(this.config, messages, {
+        onReasoningStep: onProgress,
+        onChunk: (chunk, n) => {
+          turn = n;
+          this.emit({ type: "expert_progress", attempt: n, delta: chunk });
+        },
+        signal,
+        budget: this.budget,
+        maxTurns: this.config.maxTurns,
+        attemptSeconds: resolveTimeouts(this.config).attemptSeconds,
+      });
+      const executionOutput = result.executionOutput || "";
+      const expertTimeout = !result.solved && isTimeout(signal?.reason) ? signal!.reason as Error : null;
+
+      return {
+        providerId: this.config.id,
+        providerName: this.config.name,
+        model: this.config.model,
+        response: result.solved ? this.formatSuccessResponse(result.content, executionOutput) : result.content,
+        canonicalAnswer: canonicalizeAnswer(result.solved ? executionOutput : result.content || result.error || ""),
+        success: result.solved,
+        iterations: result.turns,
+        usage: result.usage,
+        executionOutput: result.solved ? executionOutput : undefined,
+        error: result.solved ? undefined : expertTimeout?.message || result.error || "No verified tool result",
+        timedOut: expertTimeout ? true : undefined
+      };
+    } catch (err: any) {
+      return {
+        providerId: this.config.id,
+        providerName: this.config.name,
+        model: this.config.model,
+        response: "",
+        canonicalAnswer: "",
+        success: false,
+        iterations: turn,
+        usage: { inputTokens: 0, outputTokens: 0 },
+        error: err.message,
+        timedOut: isTimeout(err) ? true : undefined
+      };
+    }
   }
 
   async runChat(
     messages: MessageContent[],
-    onProgress?: (step: ReasoningStep) => void
+    onProgress?: (step: ReasoningStep) => void,
+    signal?: AbortSignal
   ): Promise<ExpertResult> {
     let accumulatedUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
 
+    this.emit({ type: "expert_started" });
+    if (!this.budget.canAfford(this.config, messages)) {
+      return this.finish({
+        providerId: this.config.id,
+        providerName: this.config.name,
+        model: this.config.model,
+        response: "",
+        canonicalAnswer: "",
+        success: false,
+        iterations: 0,
+        usage: accumulatedUsage,
+        error: "Spending budget reached"
+      });
+    }
+
     onProgress?.({
       provider: this.config.id,
       model: this.config.model,
@@ -140,12 +291,12 @@ export class ExpertRunner {
     });
 
     try {
-      const { content: response, usage } = await this.collectStreamedResponse(messages);
+      const { content: response, usage } = await this.collectStreamedResponse(messages, onProgress, signal, 1);
       accumulatedUsage = usage;
 
       const canonicalAnswer = canonicalizeAnswer(extractFinalAnswer(response));
 
-      return {
+      return this.finish({
         providerId: this.config.id,
         providerName: this.config.name,
         model: this.config.model,
@@ -154,9 +305,9 @@ export class ExpertRunner {
         success: true,
         iterations: 1,
         usage: accumulatedUsage,
-      };
+      });
     } catch (err: any) {
-      return {
+      return this.finish({
         providerId: this.config.id,
         providerName: this.config.name,
         model: this.config.model,
@@ -165,40 +316,32 @@ export class ExpertRunner {
         success: false,
         iterations: 1,
         usage: accumulatedUsage,
-        error: err.message
-      };
+        error: err.message,
+        timedOut: isTimeout(err) ? true : undefined
+      });
     }
   }
 
   private async collectStreamedResponse(
-    messages: MessageContent[]
+    messages: MessageContent[],
+    onProgress: ((step: ReasoningStep) => void) | undefined,
+    signal: AbortSignal | undefined,
+    attempt: number
   ): Promise<{ content: string; usage: TokenUsage }> {
-    let content = "";
-    let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
-
-    const handleUsage = (u: TokenUsage) => {
-      usage = u;
-    };
-
-    if (this.config.id === "openai") {
-      for await (const chunk of streamOpenAI(this.config.model, messages, handleUsage)) {
-        content += chunk;
-      }
-    } else if (this.config.id === "anthropic") {
-      for await (const chunk of streamAnthropic(this.config.model, messages, handleUsage)) {
-        content += chunk;
-      }
-    } else if (this.config.id === "openrouter") {
-      for await (const chunk of streamOpenRouter(this.config.model, messages, handleUsage)) {
-        content += chunk;
-      }
-    } else if ((this.config as any).isCustom) {
-      for await (const chunk of streamCustomProvider(this.config as any, messages, handleUsage)) {
-        content += chunk;
-      }
-    }
-
-    return { content, usage };
+    const { attemptSeconds, stallSeconds } = resolveTimeouts(this.config);
+    return this.budget.spend(this.config, messages, () =>
+      withTimeout(signal, "attempt", attemptSeconds, (attemptSignal, touch) =>
+        collectStream(this.config, messages, {
+          onReasoningStep: onProgress,
+          signal: attemptSignal,
+          onChunk: (delta) => {
+            touch();
+            this.emit({ type: "expert_progress", attempt, delta });
+          },
+        }),
+        stallSeconds
+      )
+    );
   }
 
   private extractPythonCode(response: string): string | null {
@@ -213,70 +356,6 @@ export class ExpertRunner {
     return null;
   }
 
-  private async executePython(code: string): Promise<{ success: boolean; output: string }> {
-    return new Promise((resolve) => {
-      const tempDir = os.tmpdir();
-      const tempFile = path.join(tempDir, `poetiq_${Date.now()}_${Math.random().toString(36).slice(2)}.py`);
-      let resolved = false;
-      let timeoutId: NodeJS.Timeout | null = null;
-
-      const cleanup = () => {
-        if (timeoutId) {
-          clearTimeout(timeoutId);
-          timeoutId = null;
-        }
-        try {
-          fs.unlinkSync(tempFile);
-        } catch (e) {}
-      };
-
-      const safeResolve = (result: { success: boolean; output: string }) => {
-        if (!resolved) {
-          resolved = true;
-          cleanup();
-          resolve(result);
-        }
-      };
-
-      try {
-        fs.writeFileSync(tempFile, code, "utf-8");
-
-        const pythonProcess = spawn("python3", [tempFile], { cwd: tempDir });
-
-        let stdout = "";
-        let stderr = "";
-
-        pythonProcess.stdout.on("data", (data) => {
-          stdout += data.toString();
-        });
-
-        pythonProcess.stderr.on("data", (data) => {
-          stderr += data.toString();
-        });
-
-        pythonProcess.on("close", (exitCode) => {
-          if (exitCode === 0) {
-            const output = stdout.trim() + (stderr.trim() ? `\n[stderr]: ${stderr.trim()}` : "");
-            safeResolve({ success: true, output: output || "Code executed successfully (no output)" });
-          } else {
-            safeResolve({ success: false, output: stderr.trim() || `Process exited with code ${exitCode}` });
-          }
-        });
-
-        pythonProcess.on("error", (err) => {
-          safeResolve({ success: false, output: `Failed to execute Python: ${err.message}` });
-        });
-
-        timeoutId = setTimeout(() => {
-          pythonProcess.kill();
-          safeResolve({ success: false, output: "Execution timed out (10 second limit)" });
-        }, 10000);
-      } catch (err: any) {
-        safeResolve({ success: false, output: `Error: ${err.message}` });
-      }
-    });
-  }
-
   private formatSuccessResponse(response: string, executionOutput: string): string {
     const explanationText = response.replace(/```[\s\S]*?```/g, "").trim();
     if (explanationText) {
@@ -0,0 +1,145 @@
+import type { ProviderConfig, MessageContent, TokenUsage } from "./providers";
+import { getAdapter } from "./adapters";
+import { getStatus } from "./retry";
+import { withCost } from "./pricing";
+
+export interface ProviderTestResult {
+  ok: boolean;
+  latencyMs: number;
+  // Time until the first streamed chunk, when one arrived
+  firstChunkMs?: number;
+  // false when the provider rejected the model name; unknown for other errors
+  modelFound?: boolean;
+  streaming: boolean;
+  vision: boolean;
+  usage?: TokenUsage;
+  error?: string;
+}
+
+export interface ProviderHealth extends ProviderTestResult {
+  providerId: string;
+  model: string;
+  checkedAt: string;
+}
+
+const PROBE_TIMEOUT_MS = 20_000;
+const PROBE_MAX_OUTPUT_TOKENS = 16;
+// A server that ignores the token limit is cut off here
+const PROBE_MAX_CHUNKS = 64;
+// Errors can quote the response body; only this much is passed on
+const PROBE_MAX_ERROR_CHARS = 300;
+// Health results older than this are re-probed on the next status request.
+export const HEALTH_TTL_MS = 5 * 60 * 1000;
+// Probes are paid calls, so even a forced refresh reuses results this fresh.
+export const HEALTH_MIN_REFRESH_MS = 60 * 1000;
+
+const PROBE_MESSAGES: MessageContent[] = [
+  { role: "user", content: "Reply with the single word OK." },
+];
+
+function isModelNotFound(error: any): boolean {
+  if (getStatus(error) === 404) return true;
+  const message = String(error?.message || "");
+  return /model.{0,40}(not found|does not exist|not exist|unknown|invalid)|(unknown|invalid|no such) model/i.test(message);
+}
+
+// Sends one tiny streamed request straight to the provider's adapter, without
+// fallbacks, so the result describes this base URL, key and model only.
+export async function testProvider(provider: ProviderConfig): Promise<ProviderTestResult> {
+  const probe: ProviderConfig = {
+    ...provider,
+    fallbacks: undefined,
+    sampling: { ...provider.sampling, maxOutputTokens: PROBE_MAX_OUTPUT_TOKENS, thinkingBudgetTokens: undefined },
+  };
+  const started = Date.now();
+  let firstChunkMs: number | undefined;
+  let usage: TokenUsage | undefined;
+
+  try {
+    const adapter = getAdapter(probe);
+    const signal = AbortSignal.timeout(PROBE_TIMEOUT_MS);
+    let chunks = 0;
+    for await (const _chunk of adapter.stream(probe, PROBE_MESSAGES, (u) => { usage = u; }, signal)) {
+      if (chunks++ === 0) firstChunkMs = Date.now() - started;
+      if (chunks >= PROBE_MAX_CHUNKS) break;
+    }
+
+    return {
+      ok: true,
+      latencyMs: Date.now() - started,
+      firstChunkMs,
+      modelFound: true,
+      streaming: adapter.capabilities.streaming && chunks > 0,
+      vision: adapter.capabilities.vision,
+      usage: usage && withCost(probe.model, usage),
+    };
+  } catch (error: any) {
+    let capabilities = { streaming: false, vision: false };
+    try {
+      capabilities = getAdapter(probe).capabilities;
+    } catch {
+      // Unknown kind; the error below already says so
+    }
+    return {
+      ok: false,
+      latencyMs: Date.now() - started,
+      modelFound: isModelNotFound(error) ? false : undefined,
+      streaming: false,
+      vision: capabilities.vision,
+      error: error?.name === "TimeoutError"
+        ? `No response within ${PROBE_TIMEOUT_MS / 1000}s`
+        : String(error?.message || "Probe failed").slice(0, PROBE_MAX_ERROR_CHARS),
+    };
+  }
+}
+
+const healthCache = new Map<string, ProviderHealth>();
+const inFlight = new Map<string, Promise<ProviderHealth>>();
+
+function healthKey(provider: ProviderConfig): string {
+  return `${provider.id}::${provider.model}::${provider.baseUrl || ""}`;
+}
+
+export function recordHealth(provider: ProviderConfig, result: ProviderTestResult): ProviderHealth {
+  const health: ProviderHealth = {
+    ...result,
+    providerId: provider.id,
+    model: provider.model,
+    checkedAt: new Date().toISOString(),
+  };
+  healthCache.set(healthKey(provider), health);
+  return health;
+}
+
+async function checkProvider(
+  provider: ProviderConfig,
+  maxAgeMs: number,
+  onProbeUsage?: (provider: ProviderConfig, usage: TokenUsage) => void
+): Promise<ProviderHealth> {
+  const key = healthKey(provider);
+  const cached = healthCache.get(key);
+  if (cached && Date.now() - new Date(cached.checkedAt).getTime() < maxAgeMs) return cached;
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = testProvider(provider)
+      .then(result => {
+        if (result.usage) onProbeUsage?.(provider, result.usage);
+        return recordHealth(provider, result);
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return pending;
+}
+
+// Status of every enabled provider. Probes only run for entries older than
+// maxAgeMs, so clients can poll this on an interval without re-probing each time.
+// onProbeUsage is called once for every probe that actually ran.
+export async function getProviderHealth(
+  providers: ProviderConfig[],
+  maxAgeMs: number = HEALTH_TTL_MS,
+  onProbeUsage?: (provider: ProviderConfig, usage: TokenUsage) => void
+): Promise<ProviderHealth[]> {
+  return Promise.all(providers.filter(p => p.enabled).map(p => checkProvider(p, maxAgeMs, onProbeUsage)));
+}
@@ -0,0 +1,139 @@
+import type { MessageContent } from "./providers";
+import type { ConsensusGroup, ConsensusResult, JudgeVerdict } from "./types";
+
+// The judge sees candidates under letters only, so it cannot favour its own
+// vendor's answer or the most popular one.
+const JUDGE_PROMPT = `You are an impartial judge. You will be shown a task and several candidate answers, labelled with letters.
+
+Score every candidate out of 10 with this rubric:
+- Correctness (0-4): facts, logic and calculations are right
+- Completeness (0-3): every part of the task is addressed
+- Reasoning (0-2): the answer shows or justifies how it got there
+- Clarity (0-1): the answer is easy to follow
+
+Reply in exactly this format, one SCORE line per candidate:
+SCORE <letter>: <total>/10 - <one-sentence justification>
+BEST: <letter>
+RATIONALE: <a short paragraph explaining why the best candidate wins>`;
+
+const LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+export const MAX_JUDGE_CANDIDATES = LETTERS.length;
+
+export class JudgeParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JudgeParseError";
+  }
+}
+
+export interface ParsedJudgement {
+  // Score per candidate index; candidates the judge skipped are absent
+  scores: Map<number, number>;
+  best: number;
+  rationale: string;
+}
+
+// One representative answer per consensus group, in vote order.
+export function judgeCandidates(consensus: ConsensusResult): ConsensusGroup[] {
+  return consensus.allGroups.slice(0, MAX_JUDGE_CANDIDATES);
+}
+
+function representative(consensus: ConsensusResult, group: ConsensusGroup): string {
+  return group === consensus.winningGroup ? consensus.winningAnswer : group.responses[0].response;
+}
+
+export function buildJudgeMessages(
+  task: MessageContent[],
+  consensus: ConsensusResult,
+  candidates: ConsensusGroup[]
+): MessageContent[] {
+  const listing = candidates
+    .map((group, i) => `### Candidate ${LETTERS[i]}\n\n${representative(consensus, group)}`)
+    .join("\n\n");
+  return [
+    { role: "system", content: JUDGE_PROMPT },
+    ...task,
+    { role: "user", content: `Candidate answers to judge:\n\n${listing}` },
+  ];
+}
+
+export function parseJudgement(text: string, candidateCount: number): ParsedJudgement {
+  const indexOf = (letter: string) => {
+    const index = letter ? LETTERS.indexOf(letter.toUpperCase()) : -1;
+    return index >= 0 && index < candidateCount ? index : -1;
+  };
+
+  const scores = new Map<number, number>();
+  const scorePattern = /^[\s*#-]*SCORE\s+([A-Z])[\s*:]*(\d+(?:\.\d+)?)/gm;
+  let match: RegExpExecArray | null;
+  while ((match = scorePattern.exec(text)) !== null) {
+    const index = indexOf(match[1]);
+    if (index >= 0) scores.set(index, Math.min(Number(match[2]), 10));
+  }
+
+  let best = indexOf(text.match(/^[\s*#-]*BEST[\s*:]*([A-Z])\b/m)?.[1] ?? "");
+  if (best < 0) {
+    scores.forEach((score, index) => {
+      if (best < 0 || score > scores.get(best)!) best = index;
+    });
+  }
+  if (best < 0) {
+    throw new JudgeParseError("Judge reply contained no scores or BEST line");
+  }
+
+  const rationale = text.match(/^[\s*#-]*RATIONALE[\s*:]*([\s\S]*)$/m)?.[1]?.trim() || text.trim();
+  return { scores, best, rationale };
+}
+
+// Re-ranks the grouped consensus by the judge's verdict: the chosen group
+// wins, the rest follow by score. Vote counts are kept, so agreement still
+// reports how many experts backed the judged answer.
+export function applyJudgement(
+  consensus: ConsensusResult,
+  candidates: ConsensusGroup[],
+  judgement: ParsedJudgement,
+  judge: { id: string; name: string; model: string }
+): ConsensusResult {
+  const winner = candidates[judgement.best];
+  const scoreOf = (group: ConsensusGroup) => {
+    const index = candidates.indexOf(group);
+    return index >= 0 ? judgement.scores.get(index) ?? -1 : -1;
+  };
+  const allGroups = [winner, ...consensus.allGroups.filter(g => g !== winner)
+    .sort((a, b) => scoreOf(b) - scoreOf(a))];
+
+  const verdict: JudgeVerdict = {
+    judgeId: judge.id,
+    judgeName: judge.name,
+    model: judge.model,
+    scores: candidates.map((group, i) => ({
+      candidate: LETTERS[i],
+      providerNames: group.responses.map(r => r.providerName),
+      score: judgement.scores.get(i) ?? null,
+    })),
+    best: LETTERS[judgement.best],
+    rationale: judgement.rationale,
+  };
+
+  const winnerScore = judgement.scores.get(judgement.best);
+  const backers = winner.responses.map(r => r.providerName).join(", ");
+  return {
+    ...consensus,
+    strategy: "judge",
+    winningAnswer: representative(consensus, winner),
+    winningGroup: winner,
+    allGroups,
+    agreement: winner.voteCount / consensus.totalExperts,
+    summary: `${judge.name} judged candidate ${verdict.best} (${backers}) best` +
+      `${winnerScore !== undefined ? ` with ${winnerScore}/10` : ""} among ${candidates.length} candidates.`,
+    judgement: verdict,
+  };
+}
+
+export function describeJudgement(verdict: JudgeVerdict): string {
+  const scores = verdict.scores.map(s =>
+    `${s.candidate === verdict.best ? "✓" : "·"} ${s.candidate} (${s.providerNames.join(", ")}): ${s.score ?? "?"}/10`
+  );
+  return [...scores, "", verdict.rationale].join("\n");
+}
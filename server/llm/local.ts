@@ -0,0 +1,85 @@
+import { assertAllowedEndpoint, readJsonLimited } from "./endpoints";
+
+export interface LocalModelInfo {
+  id: string;
+  contextLength?: number;
+}
+
+const DISCOVERY_TIMEOUT_MS = 5000;
+const MAX_DISCOVERY_BYTES = 1024 * 1024;
+const MAX_LOCAL_MODELS = 100;
+
+// Users paste either the server root (http://localhost:11434) or the
+// OpenAI-compatible path (http://localhost:8080/v1); normalize to the root.
+export function localServerRoot(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, "").replace(/\/v1$/, "");
+}
+
+export function localOpenAIBaseUrl(baseUrl: string): string {
+  return `${localServerRoot(baseUrl)}/v1`;
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any | null> {
+  try {
+    // Redirects could lead past the endpoint check
+    const response = await fetch(url, { ...init, redirect: "error", signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS) });
+    if (!response.ok) return null;
+    return await readJsonLimited(response, MAX_DISCOVERY_BYTES);
+  } catch {
+    return null;
+  }
+}
+
+async function getOllamaContextLength(root: string, model: string): Promise<number | undefined> {
+  const info = await fetchJson(`${root}/api/show`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model }),
+  });
+  const modelInfo = info?.model_info as Record<string, unknown> | undefined;
+  if (!modelInfo) return undefined;
+  const key = Object.keys(modelInfo).find(k => k.endsWith(".context_length"));
+  return key ? Number(modelInfo[key]) || undefined : undefined;
+}
+
+async function listOllamaModels(root: string): Promise<LocalModelInfo[] | null> {
+  const tags = await fetchJson(`${root}/api/tags`);
+  if (!tags || !Array.isArray(tags.models)) return null;
+
+  return Promise.all(
+    tags.models.slice(0, MAX_LOCAL_MODELS).map(async (m: { name: string }) => ({
+      id: m.name,
+      contextLength: await getOllamaContextLength(root, m.name),
+    }))
+  );
+}
+
+// llama.cpp server (and other OpenAI-compatible local servers) expose
+// /v1/models; llama.cpp additionally reports its n_ctx under /props.
+async function listOpenAICompatibleModels(root: string): Promise<LocalModelInfo[] | null> {
+  const models = await fetchJson(`${root}/v1/models`);
+  if (!models || !Array.isArray(models.data)) return null;
+
+  const props = await fetchJson(`${root}/props`);
+  const serverContext = props?.default_generation_settings?.n_ctx;
+
+  return models.data.slice(0, MAX_LOCAL_MODELS).map((m: { id: string; meta?: { n_ctx_train?: number } }) => ({
+    id: m.id,
+    contextLength: serverContext || m.meta?.n_ctx_train || undefined,
+  }));
+}
+
+// Only servers on this machine or in PROVIDER_HOST_ALLOWLIST are queried;
+// anything else throws EndpointNotAllowedError.
+export async function listLocalModels(baseUrl: string): Promise<LocalModelInfo[]> {
+  const root = localServerRoot(baseUrl);
+  await assertAllowedEndpoint(root, { allowPublic: false });
+
+  const ollamaModels = await listOllamaModels(root);
+  if (ollamaModels) return ollamaModels;
+
+  const openaiModels = await listOpenAICompatibleModels(root);
+  if (openaiModels) return openaiModels;
+
+  throw new Error(`No Ollama or llama.cpp server responded at ${root}`);
+}
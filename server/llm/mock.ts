@@ -0,0 +1,115 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { ProviderConfig, MessageContent, TokenUsage, ThinkingTrace } from "./providers";
+
+// One scripted reply. `match` is tested against the last user message and
+// `matchSystem` against the system prompt; a plain string is a
+// case-insensitive substring, "/.../flags" is a regular expression. A reply
+// with neither acts as the default.
+export interface MockResponse {
+  match?: string;
+  matchSystem?: string;
+  content: string;
+  // Exact chunk boundaries for streaming; by default content is split into words
+  chunks?: string[];
+  usage?: TokenUsage;
+  thinking?: string;
+}
+
+export interface MockFixture {
+  responses: MockResponse[];
+}
+
+export const MOCK_FIXTURES_DIR = process.env.MOCK_FIXTURES_DIR || path.resolve(process.cwd(), "server/llm/fixtures/mock");
+
+const fixtureCache = new Map<string, MockFixture>();
+
+// The mock provider's model names the fixture file: model "default" reads
+// default.json from MOCK_FIXTURES_DIR.
+export function loadMockFixture(name: string): MockFixture {
+  const cached = fixtureCache.get(name);
+  if (cached) return cached;
+
+  const file = path.join(MOCK_FIXTURES_DIR, `${path.basename(name)}.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Mock fixture not found: ${file}`);
+  }
+  const fixture = JSON.parse(fs.readFileSync(file, "utf-8")) as MockFixture;
+  if (!Array.isArray(fixture.responses) || fixture.responses.length === 0) {
+    throw new Error(`Mock fixture ${file} has no responses`);
+  }
+  fixtureCache.set(name, fixture);
+  return fixture;
+}
+
+function matchesPattern(pattern: string, text: string): boolean {
+  const regex = pattern.match(/^\/([\s\S]*)\/([a-z]*)$/);
+  if (regex) {
+    return new RegExp(regex[1], regex[2]).test(text);
+  }
+  return text.toLowerCase().includes(pattern.toLowerCase());
+}
+
+export function selectMockResponse(fixture: MockFixture, messages: MessageContent[]): MockResponse {
+  const lastUser = [...messages].reverse().find(m => m.role === "user")?.content || "";
+  const system = messages.find(m => m.role === "system")?.content || "";
+
+  const matched = fixture.responses.find(r =>
+    (r.match !== undefined || r.matchSystem !== undefined) &&
+    (r.match === undefined || matchesPattern(r.match, lastUser)) &&
+    (r.matchSystem === undefined || matchesPattern(r.matchSystem, system))
+  );
+  const response = matched ?? fixture.responses.find(r => r.match === undefined && r.matchSystem === undefined);
+  if (!response) {
+    throw new Error(`No mock response matches: ${lastUser.slice(0, 80)}`);
+  }
+  return response;
+}
+
+// Rough 4-characters-per-token estimate so usage stays deterministic.
+function estimateUsage(messages: MessageContent[], content: string): TokenUsage {
+  const inputChars = messages.reduce((sum, m) => sum + m.content.length, 0);
+  return { inputTokens: Math.ceil(inputChars / 4), outputTokens: Math.ceil(content.length / 4) };
+}
+
+function toChunks(response: MockResponse): string[] {
+  return response.chunks ?? response.content.match(/\s*\S+|\s+/g) ?? [];
+}
+
+export async function callMock(
+  provider: ProviderConfig,
+  messages: MessageContent[],
+  signal?: AbortSignal,
+  onThinking?: (trace: ThinkingTrace) => void
+): Promise<{ content: string; usage: TokenUsage }> {
+  signal?.throwIfAborted();
+  const response = selectMockResponse(loadMockFixture(provider.model), messages);
+  if (response.thinking) {
+    onThinking?.({ content: response.thinking, reasoningTokens: 0 });
+  }
+  const content = response.chunks ? response.chunks.join("") : response.content;
+  return { content, usage: response.usage ?? estimateUsage(messages, content) };
+}
+
+export async function* streamMock(
+  provider: ProviderConfig,
+  messages: MessageContent[],
+  onUsage?: (usage: TokenUsage) => void,
+  signal?: AbortSignal,
+  onThinking?: (trace: ThinkingTrace) => void
+): AsyncGenerator<string> {
+  const response = selectMockResponse(loadMockFixture(provider.model), messages);
+  const chunks = toChunks(response);
+  if (response.thinking) {
+    onThinking?.({ content: response.thinking, reasoningTokens: 0 });
+  }
+
+  try {
+    for (const chunk of chunks) {
+      signal?.throwIfAborted();
+      yield chunk;
+    }
+  } finally {
+    onUsage?.(response.usage ?? estimateUsage(messages, chunks.join("")));
+  }
+}
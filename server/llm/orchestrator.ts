@@ -1,12 +1,50 @@
-import { callOpenAI, callAnthropic, callOpenRouter, streamOpenAI, streamAnthropic, streamOpenRouter, callCustomProvider, streamCustomProvider, type ProviderConfig, type ReasoningStep, type TokenUsage, type MessageContent } from "./providers";
-import { spawn } from "child_process";
-import * as fs from "fs";
-import * as path from "path";
-import * as os from "os";
+import type { ProviderConfig, ReasoningStep, TokenUsage, MessageContent } from "./providers";
+import { callProvider, streamProvider, collectStream, supportsTools, supportsEmbeddings } from "./adapters";
+import { executePython } from "./sandbox";
+import { runAgentLoop } from "./agent";
 import { ExpertRunner } from "./expertRunner";
 import { TaskRouter } from "./taskRouter";
-import { ExactMatchAggregator, SemanticAggregator, canonicalizeAnswer, extractFinalAnswer } from "./consensus";
-import type { ExpertConfig, ExpertResult, ConsensusResult, ConsensusMode, TaskType, QuantPipelineResult } from "./types";
+import { ExactMatchAggregator, SemanticAggregator, IncrementalConsensus, type ConsensusAggregator, canonicalizeAnswer, extractFinalAnswer, measureExpertAgreement, describeSampleVotes } from "./consensus";
+import { addUsage } from "./pricing";
+import { CostBudget, describeBudgetExceeded } from "./budget";
+import { Watchdog, isTimeout, resolveTimeouts, withTimeout } from "./timeouts";
+import { planCompute, describeComputePlan, type ComputePlan } from "./compute";
+import { judgeCandidates, buildJudgeMessages, parseJudgement, applyJudgement, describeJudgement } from "./judge";
+import { buildSynthesisMessages, applySynthesis, countDistinctAnswers } from "./synthesis";
+import { EmbeddingSimilarity, TfIdfSimilarity } from "./similarity";
+import type { ExpertConfig, ExpertResult, ExpertStreamEvent, ConsensusResult, ConsensusMode, ConsensusStrategy, OrchestratorOptions, TaskType, QuantPipelineResult } from "./types";
+
+const CODE_SOLVER_PROMPT = `You are a code-based reasoning engine. You must solve problems by writing Python code.
+
+Your approach:
+1. Analyze the problem carefully
+2. Write Python code that solves the problem
+3. Your code MUST include print() statements to show the result
+4. If the run_python tool is available, call it with your code; otherwise wrap your code in a \`\`\`python code block
+
+If your code fails, you will receive the error message and must fix it.
+
+Always provide working Python code that prints the solution.`;
+
+const PROPOSER_PROMPT = `You are a careful expert problem solver. Work through the task step by step, check your reasoning, and finish with a clearly stated final answer.`;
+
+const CRITIC_PROMPT = `You are a rigorous reviewer. You will be shown a task and a draft answer written by another model.
+
+Review the draft strictly against the task:
+1. Point out factual, logical or calculation errors
+2. Point out parts of the task the draft ignores or misreads
+3. Suggest concrete improvements to clarity and completeness
+
+Do not rewrite the answer yourself. End your review with exactly one line:
+VERDICT: ACCEPT (if the draft is correct and complete) or VERDICT: REVISE`;
+
+const REFINE_INSTRUCTION = `A reviewer critiqued your answer:
+
+{critique}
+
+Revise your answer to address every valid point; keep what was already correct. Reply with the complete revised answer only, without commentary about the review.`;
+
+const MAX_REFINEMENT_ROUNDS = 5;
 
 export class PoetiqOrchestrator {
   private providers: ProviderConfig[];
@@ -14,80 +52,36 @@ export class PoetiqOrchestrator {
   private exactAggregator: ExactMatchAggregator;
   private semanticAggregator: SemanticAggregator;
   private consensusMode: ConsensusMode = "auto";
+  private budget: CostBudget;
+  private quorum: number | null;
+  // Judge or synthesizer for the "judge" and "synthesize" consensus modes
+  private judgeProviderId: string | null;
+  private plan: ComputePlan;
 
-  constructor(providers: ProviderConfig[], consensusMode: ConsensusMode = "auto") {
+  constructor(
+    providers: ProviderConfig[],
+    consensusMode: ConsensusMode = "auto",
+    budget: CostBudget = new CostBudget(),
+    options: OrchestratorOptions = {}
+  ) {
     this.providers = providers.filter(p => p.enabled);
     this.taskRouter = new TaskRouter();
     this.exactAggregator = new ExactMatchAggregator();
-    this.semanticAggregator = new SemanticAggregator();
-    this.consensusMode = consensusMode;
-  }
-
-  private async executePython(code: string): Promise<{ success: boolean; output: string }> {
-    return new Promise((resolve) => {
-      const tempDir = os.tmpdir();
-      const tempFile = path.join(tempDir, `poetiq_${Date.now()}_${Math.random().toString(36).slice(2)}.py`);
-      let resolved = false;
-      let timeoutId: NodeJS.Timeout | null = null;
-      
-      const cleanup = () => {
-        if (timeoutId) {
-          clearTimeout(timeoutId);
-          timeoutId = null;
-        }
-        try {
-          fs.unlinkSync(tempFile);
-        } catch (e) {
-        }
-      };
-
-      const safeResolve = (result: { success: boolean; output: string }) => {
-        if (!resolved) {
-          resolved = true;
-          cleanup();
-          resolve(result);
-        }
-      };
-      
-      try {
-        fs.writeFileSync(tempFile, code, "utf-8");
-        
-        const pythonProcess = spawn("python3", [tempFile], {
-          cwd: tempDir,
-        });
-
-        let stdout = "";
-        let stderr = "";
-
-        pythonProcess.stdout.on("data", (data) => {
-          stdout += data.toString();
-        });
-
-        pythonProcess.stderr.on("data", (data) => {
-          stderr += data.toString();
-        });
-
-        pythonProcess.on("close", (exitCode) => {
-          if (exitCode === 0) {
-            const output = stdout.trim() + (stderr.trim() ? `\n[stderr]: ${stderr.trim()}` : "");
-            safeResolve({ success: true, output: output || "Code executed successfully (no output)" });
-          } else {
-            safeResolve({ success: false, output: stderr.trim() || `Process exited with code ${exitCode}` });
-          }
-        });
-
-        pythonProcess.on("error", (err) => {
-          safeResolve({ success: false, output: `Failed to execute Python: ${err.message}` });
-        });
-
-        timeoutId = setTimeout(() => {
-          pythonProcess.kill();
-          safeResolve({ success: false, output: "Execution timed out (10 second limit)" });
-        }, 10000);
-      } catch (err: any) {
-        safeResolve({ success: false, output: `Error: ${err.message}` });
-      }
+    // Provider embeddings when chosen and an enabled provider offers them,
+    // otherwise (and whenever embedding fails) local TF-IDF
+    const embedder = options.similarityBackend === "embeddings"
+      ? this.providers.find(p => supportsEmbeddings(p))
+      : undefined;
+    this.semanticAggregator = new SemanticAggregator({
+      backend: embedder ? new EmbeddingSimilarity(embedder) : new TfIdfSimilarity(),
+      thresholds: options.similarityThresholds,
     });
+    this.consensusMode = consensusMode;
+    this.budget = budget;
+    this.quorum = options.quorum ?? null;
+    this.judgeProviderId = options.judgeProviderId ?? null;
+    const refinementRounds = Math.min(Math.max(Math.floor(options.refinementRounds ?? 0), 0), MAX_REFINEMENT_ROUNDS);
+    this.plan = planCompute(options.computeBudget, refinementRounds);
   }
 
   private extractPythonCode(response: string): string | null {
@@ -104,34 +98,17 @@ export class PoetiqOrchestrator {
 
   private async collectStreamedResponse(
     provider: ProviderConfig,
-    messages: MessageContent[]
-  ): Promise<{ content: string; usage: { inputTokens: number; outputTokens: number } }> {
-    let content = "";
-    let usage = { inputTokens: 0, outputTokens: 0 };
-
-    const handleUsage = (u: { inputTokens: number; outputTokens: number }) => {
-      usage = u;
-    };
-
-    if (provider.id === "openai") {
-      for await (const chunk of streamOpenAI(provider.model, messages, handleUsage)) {
-        content += chunk;
-      }
-    } else if (provider.id === "anthropic") {
-      for await (const chunk of streamAnthropic(provider.model, messages, handleUsage)) {
-        content += chunk;
-      }
-    } else if (provider.id === "openrouter") {
-      for await (const chunk of streamOpenRouter(provider.model, messages, handleUsage)) {
-        content += chunk;
-      }
-    } else if (provider.isCustom) {
-      for await (const chunk of streamCustomProvider(provider, messages, handleUsage)) {
-        content += chunk;
-      }
-    }
-
-    return { content, usage };
+    messages: MessageContent[],
+    onReasoningStep?: (step: ReasoningStep) => void,
+    signal?: AbortSignal
+  ): Promise<{ content: string; usage: TokenUsage }> {
+    const { attemptSeconds, stallSeconds } = resolveTimeouts(provider);
+    return this.budget.spend(provider, messages, () =>
+      withTimeout(signal, "attempt", attemptSeconds, (attemptSignal, touch) =>
+        collectStream(provider, messages, { onReasoningStep, signal: attemptSignal, onChunk: touch }),
+        stallSeconds
+      )
+    );
   }
 
   private async* yieldBufferedContent(content: string): AsyncGenerator<string> {
@@ -141,6 +118,27 @@ export class PoetiqOrchestrator {
     }
   }
 
+  // Ends a run that hit a spending cap with the best partial answer it has.
+  private async* yieldBudgetStop(
+    partial: string,
+    onReasoningStep?: (step: ReasoningStep) => void
+  ): AsyncGenerator<string> {
+    const info = this.budget.exceeded;
+    if (!info) return;
+
+    onReasoningStep?.({
+      provider: "orchestrator",
+      model: "cost-budget",
+      action: "budget_exceeded",
+      content: `${describeBudgetExceeded(info)} No further attempts launched.`,
+    });
+
+    const note = `*Stopped early: ${describeBudgetExceeded(info)}*`;
+    for await (const chunk of this.yieldBufferedContent(partial ? `${partial}\n\n---\n\n${note}` : note)) {
+      yield chunk;
+    }
+  }
+
   private isQuantTask(userPrompt: string | MessageContent[]): boolean {
     const keywords = ["tradingview", "pine script", "pinescript", "strategy", "backtest", "indicator"];
     let textToCheck = "";
@@ -268,7 +266,8 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
   private async runQuantPipelineForProvider(
     provider: ProviderConfig,
     userPrompt: string | MessageContent[],
-    onReasoningStep?: (step: ReasoningStep) => void
+    onReasoningStep?: (step: ReasoningStep) => void,
+    signal?: AbortSignal
   ): Promise<QuantPipelineResult> {
     let accumulatedUsage = { inputTokens: 0, outputTokens: 0 };
     
@@ -277,13 +276,6 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
     const userImages = this.extractUserImages(userPrompt);
 
     try {
-      onReasoningStep?.({
-        provider: provider.id,
-        model: provider.model,
-        action: "think",
-        content: `[${provider.name}] Step 1: Analyst generating Strategy Plan...`,
-      });
-
       // Build analyst message with images if available
       const userMessage: MessageContent = { role: "user", content: userText };
       if (userImages.length > 0) {
@@ -295,16 +287,26 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
         userMessage
       ];
 
-      const { content: strategyPlan, usage: analystUsage } = await this.collectStreamedResponse(provider, analystMessages);
-      accumulatedUsage.inputTokens += analystUsage.inputTokens;
-      accumulatedUsage.outputTokens += analystUsage.outputTokens;
+      if (!this.budget.canAfford(provider, analystMessages)) {
+        throw new Error("Spending budget reached before the analyst step");
+      }
+
+      onReasoningStep?.({
+        provider: provider.id,
+        model: provider.model,
+        action: "think",
+        content: `[${provider.name}] Step 1: Analyst generating Strategy Plan...`,
+      });
+
+      const { content: strategyPlan, usage: analystUsage } = await this.collectStreamedResponse(provider, analystMessages, onReasoningStep, signal);
+      addUsage(accumulatedUsage, analystUsage);
 
       onReasoningStep?.({
         provider: provider.id,
         model: provider.model,
         action: "verify",
         content: `[${provider.name}] Strategy Plan completed. Proceeding to code generation...`,
-        tokenUsage: { inputTokens: analystUsage.inputTokens, outputTokens: analystUsage.outputTokens },
+        tokenUsage: { ...analystUsage },
       });
 
       onReasoningStep?.({
@@ -319,9 +321,22 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
         { role: "user", content: `Original Request: ${userText}\n\nStrategy Plan:\n${strategyPlan}` }
       ];
 
-      const { content: pineScriptCode, usage: coderUsage } = await this.collectStreamedResponse(provider, coderMessages);
-      accumulatedUsage.inputTokens += coderUsage.inputTokens;
-      accumulatedUsage.outputTokens += coderUsage.outputTokens;
+      if (!this.budget.canAfford(provider, coderMessages)) {
+        return {
+          providerId: provider.id,
+          providerName: provider.name,
+          model: provider.model,
+          strategyPlan,
+          pineScriptCode: "",
+          success: false,
+          usage: accumulatedUsage,
+          validation: { hasPineCodeBlock: false, hasVersionDirective: false, hasStrategyEntry: false, hasStrategyExit: false, isIndicator: false, score: 0 },
+          error: "Spending budget reached before the coder step",
+        };
+      }
+
+      const { content: pineScriptCode, usage: coderUsage } = await this.collectStreamedResponse(provider, coderMessages, onReasoningStep, signal);
+      addUsage(accumulatedUsage, coderUsage);
 
       const validation = this.validatePineScript(pineScriptCode);
 
@@ -330,7 +345,7 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
         model: provider.model,
         action: "verify",
         content: `[${provider.name}] Pine Script generated. Score: ${validation.score}/10. V6: ${validation.hasVersionDirective ? "✓" : "✗"}, Strategy functions: ${validation.isIndicator || (validation.hasStrategyEntry && validation.hasStrategyExit) ? "✓" : "✗"}`,
-        tokenUsage: { inputTokens: coderUsage.inputTokens, outputTokens: coderUsage.outputTokens },
+        tokenUsage: { ...coderUsage },
       });
 
       return {
@@ -361,6 +376,7 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
         usage: accumulatedUsage,
         validation: { hasPineCodeBlock: false, hasVersionDirective: false, hasStrategyEntry: false, hasStrategyExit: false, isIndicator: false, score: 0 },
         error: error.message,
+        timedOut: isTimeout(error) ? true : undefined,
       };
     }
   }
@@ -379,7 +395,8 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
   async* solveQuantTask(
     userPrompt: string | MessageContent[],
     onReasoningStep?: (step: ReasoningStep) => void,
-    onTokenUsage?: (usage: TokenUsage) => void
+    onTokenUsage?: (usage: TokenUsage) => void,
+    signal?: AbortSignal
   ): AsyncGenerator<string> {
     const enabledProviders = this.providers.filter(p => p.enabled);
     
@@ -388,8 +405,8 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
       return;
     }
 
-    if (enabledProviders.length === 1) {
-      yield* this.solveQuantTaskSingleProvider(enabledProviders[0], userPrompt, onReasoningStep, onTokenUsage);
+    if (enabledProviders.length === 1 || !this.plan.quantAllProviders) {
+      yield* this.solveQuantTaskSingleProvider(enabledProviders[0], userPrompt, onReasoningStep, onTokenUsage, signal);
       return;
     }
 
@@ -411,21 +428,35 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
       });
     }
 
-    const pipelinePromises = enabledProviders.map(provider => 
-      this.runQuantPipelineForProvider(provider, userPrompt, onReasoningStep)
-    );
+    // Each pipeline runs under its provider's expert deadline, so one hung
+    // provider cannot hold up the others.
+    const pipelinePromises = enabledProviders.map(async provider => {
+      const watchdog = new Watchdog(signal, "expert", resolveTimeouts(provider).expertSeconds);
+      try {
+        return await this.runQuantPipelineForProvider(provider, userPrompt, onReasoningStep, watchdog.signal);
+      } finally {
+        watchdog.clear();
+      }
+    });
 
     const results: QuantPipelineResult[] = await Promise.all(pipelinePromises);
 
     let totalUsage = { inputTokens: 0, outputTokens: 0 };
     for (const result of results) {
-      totalUsage.inputTokens += result.usage.inputTokens;
-      totalUsage.outputTokens += result.usage.outputTokens;
+      addUsage(totalUsage, result.usage);
     }
     onTokenUsage?.(totalUsage);
 
+    if (signal?.aborted) return;
+
     const successfulResults = results.filter(r => r.success);
 
+    if (successfulResults.length === 0 && this.budget.exceeded) {
+      const partial = results.find(r => r.strategyPlan);
+      yield* this.yieldBudgetStop(partial ? `## Strategy Analysis\n\n${partial.strategyPlan}` : "", onReasoningStep);
+      return;
+    }
+
     if (successfulResults.length === 0) {
       onReasoningStep?.({
         provider: "orchestrator",
@@ -526,11 +557,60 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
     });
   }
 
+  // The single-provider pipeline streams straight to the client, so its limits
+  // are applied here rather than by withTimeout: the expert deadline covers
+  // the whole pipeline and each step gets the attempt and stall limits.
   private async* solveQuantTaskSingleProvider(
     provider: ProviderConfig,
     userPrompt: string | MessageContent[],
     onReasoningStep?: (step: ReasoningStep) => void,
-    onTokenUsage?: (usage: TokenUsage) => void
+    onTokenUsage?: (usage: TokenUsage) => void,
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    const watchdog = new Watchdog(signal, "expert", resolveTimeouts(provider).expertSeconds);
+    try {
+      yield* this.streamQuantPipeline(provider, userPrompt, onReasoningStep, onTokenUsage, watchdog.signal);
+    } catch (error: any) {
+      if (!isTimeout(error)) throw error;
+      onReasoningStep?.({
+        provider: provider.id,
+        model: provider.model,
+        action: "error",
+        content: `Quant Solver pipeline stopped: ${error.message}`,
+      });
+      yield `\n\n> **Stopped**: ${error.message}. Please try again.\n`;
+    } finally {
+      watchdog.clear();
+    }
+  }
+
+  private async* streamWithTimeouts(
+    provider: ProviderConfig,
+    messages: MessageContent[],
+    onUsage: (usage: TokenUsage) => void,
+    onReasoningStep?: (step: ReasoningStep) => void,
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    const { attemptSeconds, stallSeconds } = resolveTimeouts(provider);
+    const watchdog = new Watchdog(signal, "attempt", attemptSeconds, stallSeconds);
+    try {
+      for await (const chunk of streamProvider(provider, messages, onUsage, { onReasoningStep, signal: watchdog.signal })) {
+        watchdog.touch();
+        yield chunk;
+      }
+    } catch (error) {
+      throw isTimeout(watchdog.signal.reason) ? watchdog.signal.reason : error;
+    } finally {
+      watchdog.clear();
+    }
+  }
+
+  private async* streamQuantPipeline(
+    provider: ProviderConfig,
+    userPrompt: string | MessageContent[],
+    onReasoningStep?: (step: ReasoningStep) => void,
+    onTokenUsage?: (usage: TokenUsage) => void,
+    signal?: AbortSignal
   ): AsyncGenerator<string> {
     let accumulatedUsage = { inputTokens: 0, outputTokens: 0 };
     
@@ -545,15 +625,6 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
       content: `Starting Quant Solver pipeline with ${provider.name}`,
     });
 
-    onReasoningStep?.({
-      provider: provider.id,
-      model: provider.model,
-      action: "think",
-      content: "Step 1: Analyst generating Strategy Plan...",
-    });
-
-    yield "## Strategy Analysis\n\n";
-
     // Build analyst message with images if available
     const userMessage: MessageContent = { role: "user", content: userText };
     if (userImages.length > 0) {
@@ -565,36 +636,33 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
       userMessage
     ];
 
+    if (!this.budget.canAfford(provider, analystMessages)) {
+      yield* this.yieldBudgetStop("", onReasoningStep);
+      return;
+    }
+
+    onReasoningStep?.({
+      provider: provider.id,
+      model: provider.model,
+      action: "think",
+      content: "Step 1: Analyst generating Strategy Plan...",
+    });
+
+    yield "## Strategy Analysis\n\n";
+
     let strategyPlan = "";
     let analystUsage = { inputTokens: 0, outputTokens: 0 };
     const handleAnalystUsage = (u: { inputTokens: number; outputTokens: number }) => {
       analystUsage = u;
     };
 
-    if (provider.id === "openai") {
-      for await (const chunk of streamOpenAI(provider.model, analystMessages, handleAnalystUsage)) {
-        strategyPlan += chunk;
-        yield chunk;
-      }
-    } else if (provider.id === "anthropic") {
-      for await (const chunk of streamAnthropic(provider.model, analystMessages, handleAnalystUsage)) {
-        strategyPlan += chunk;
-        yield chunk;
-      }
-    } else if (provider.id === "openrouter") {
-      for await (const chunk of streamOpenRouter(provider.model, analystMessages, handleAnalystUsage)) {
-        strategyPlan += chunk;
-        yield chunk;
-      }
-    } else if (provider.isCustom) {
-      for await (const chunk of streamCustomProvider(provider, analystMessages, handleAnalystUsage)) {
-        strategyPlan += chunk;
-        yield chunk;
-      }
+    for await (const chunk of this.streamWithTimeouts(provider, analystMessages, handleAnalystUsage, onReasoningStep, signal)) {
+      strategyPlan += chunk;
+      yield chunk;
     }
 
-    accumulatedUsage.inputTokens += analystUsage.inputTokens;
-    accumulatedUsage.outputTokens += analystUsage.outputTokens;
+    addUsage(accumulatedUsage, analystUsage);
+    this.budget.charge(analystUsage);
     onTokenUsage?.(accumulatedUsage);
 
     onReasoningStep?.({
@@ -602,11 +670,21 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
       model: provider.model,
       action: "verify",
       content: "Strategy Plan completed. Proceeding to code generation...",
-      tokenUsage: { inputTokens: accumulatedUsage.inputTokens, outputTokens: accumulatedUsage.outputTokens },
+      tokenUsage: { ...accumulatedUsage },
     });
 
+    const coderMessages: MessageContent[] = [
+      { role: "system", content: this.getQuantCoderPrompt() },
+      { role: "user", content: `Original Request: ${userText}\n\nStrategy Plan:\n${strategyPlan}` }
+    ];
+
     yield "\n\n---\n\n";
 
+    if (!this.budget.canAfford(provider, coderMessages)) {
+      yield* this.yieldBudgetStop("", onReasoningStep);
+      return;
+    }
+
     onReasoningStep?.({
       provider: provider.id,
       model: provider.model,
@@ -616,41 +694,19 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
 
     yield "## Pine Script V6 Implementation\n\n";
 
-    const coderMessages: MessageContent[] = [
-      { role: "system", content: this.getQuantCoderPrompt() },
-      { role: "user", content: `Original Request: ${userText}\n\nStrategy Plan:\n${strategyPlan}` }
-    ];
-
     let pineScriptCode = "";
     let coderUsage = { inputTokens: 0, outputTokens: 0 };
     const handleCoderUsage = (u: { inputTokens: number; outputTokens: number }) => {
       coderUsage = u;
     };
 
-    if (provider.id === "openai") {
-      for await (const chunk of streamOpenAI(provider.model, coderMessages, handleCoderUsage)) {
-        pineScriptCode += chunk;
-        yield chunk;
-      }
-    } else if (provider.id === "anthropic") {
-      for await (const chunk of streamAnthropic(provider.model, coderMessages, handleCoderUsage)) {
-        pineScriptCode += chunk;
-        yield chunk;
-      }
-    } else if (provider.id === "openrouter") {
-      for await (const chunk of streamOpenRouter(provider.model, coderMessages, handleCoderUsage)) {
-        pineScriptCode += chunk;
-        yield chunk;
-      }
-    } else if (provider.isCustom) {
-      for await (const chunk of streamCustomProvider(provider, coderMessages, handleCoderUsage)) {
-        pineScriptCode += chunk;
-        yield chunk;
-      }
+    for await (const chunk of this.streamWithTimeouts(provider, coderMessages, handleCoderUsage, onReasoningStep, signal)) {
+      pineScriptCode += chunk;
+      yield chunk;
     }
 
-    accumulatedUsage.inputTokens += coderUsage.inputTokens;
-    accumulatedUsage.outputTokens += coderUsage.outputTokens;
+    addUsage(accumulatedUsage, coderUsage);
+    this.budget.charge(coderUsage);
     onTokenUsage?.(accumulatedUsage);
 
     const validation = this.validatePineScript(pineScriptCode);
@@ -670,7 +726,7 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
       model: provider.model,
       action: "verify",
       content: `Pine Script code generated. Validation: ${validation.hasPineCodeBlock ? "✓ Code block" : "✗ No code block"}, ${validation.hasVersionDirective ? "✓ V6 directive" : "✗ Missing V6"}, ${validation.isIndicator || (validation.hasStrategyEntry && validation.hasStrategyExit) ? "✓ Strategy/Indicator functions" : `✗ Missing functions`}`,
-      tokenUsage: { inputTokens: coderUsage.inputTokens, outputTokens: coderUsage.outputTokens },
+      tokenUsage: { ...coderUsage },
     });
 
     onReasoningStep?.({
@@ -721,10 +777,19 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
   async* solveTask(
     userPrompt: string | MessageContent[],
     onReasoningStep?: (step: ReasoningStep) => void,
-    onTokenUsage?: (usage: TokenUsage) => void
+    onTokenUsage?: (usage: TokenUsage) => void,
+    signal?: AbortSignal,
+    onExpertEvent?: (event: ExpertStreamEvent) => void
   ): AsyncGenerator<string> {
+    onReasoningStep?.({
+      provider: "orchestrator",
+      model: "compute-plan",
+      action: "plan",
+      content: describeComputePlan(this.plan),
+    });
+
     if (this.isQuantTask(userPrompt)) {
-      yield* this.solveQuantTask(userPrompt, onReasoningStep, onTokenUsage);
+      yield* this.solveQuantTask(userPrompt, onReasoningStep, onTokenUsage, signal);
       return;
     }
 
@@ -736,41 +801,201 @@ Output ONLY the Pine Script code wrapped in a \`\`\`pine code block.`;
     }
 
     if (enabledProviders.length === 1) {
-      yield* this.solveSingleProvider(userPrompt, enabledProviders[0], onReasoningStep, onTokenUsage);
+      yield* this.solveSingleProvider(userPrompt, enabledProviders[0], onReasoningStep, onTokenUsage, signal);
       return;
     }
 
-    yield* this.solveMultiProvider(userPrompt, enabledProviders, onReasoningStep, onTokenUsage);
+    if (this.plan.refinementRounds > 0) {
+      yield* this.solveWithRefinement(userPrompt, enabledProviders, onReasoningStep, onTokenUsage, signal, onExpertEvent);
+      return;
+    }
+
+    yield* this.solveMultiProvider(userPrompt, enabledProviders, onReasoningStep, onTokenUsage, signal, onExpertEvent);
   }
 
-  private async* solveSingleProvider(
+  // The first provider drafts, the second reviews the draft against the task,
+  // and the first revises, for up to refinementRounds rounds or until the
+  // reviewer accepts. Any further enabled providers sit the run out. Once the
+  // draft has been revised, the output carries "## Review of Previous
+  // Response" and "## Enhanced Response" sections, which the routes store as
+  // a review step and the answer; a draft accepted as-is is returned plain.
+  private async* solveWithRefinement(
     userPrompt: string | MessageContent[],
-    provider: ProviderConfig,
+    providers: ProviderConfig[],
     onReasoningStep?: (step: ReasoningStep) => void,
-    onTokenUsage?: (usage: TokenUsage) => void
+    onTokenUsage?: (usage: TokenUsage) => void,
+    signal?: AbortSignal,
+    onExpertEvent?: (event: ExpertStreamEvent) => void
   ): AsyncGenerator<string> {
-    const systemPrompt = `You are a code-based reasoning engine. You must solve problems by writing Python code.
+    const [proposer, critic, ...unused] = providers;
+    const task: MessageContent[] = Array.isArray(userPrompt) ? userPrompt : [{ role: "user", content: userPrompt }];
+    const accumulatedUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
 
-Your approach:
-1. Analyze the problem carefully
-2. Write Python code that solves the problem
-3. Your code MUST include print() statements to show the result
-4. Wrap your code in a \`\`\`python code block
+    onReasoningStep?.({
+      provider: "orchestrator",
+      model: "refinement-loop",
+      action: "analyze",
+      content: `Starting refinement loop: ${proposer.name} proposes, ${critic.name} critiques (up to ${this.plan.refinementRounds} round(s))` +
+        (unused.length > 0 ? `. Not used in refinement mode: ${unused.map(p => p.name).join(", ")}` : ""),
+    });
 
-If your code fails, you will receive the error message and must fix it.
+    const draftMessages: MessageContent[] = [{ role: "system", content: PROPOSER_PROMPT }, ...task];
+    if (!this.budget.canAfford(proposer, draftMessages)) {
+      yield* this.yieldBudgetStop("", onReasoningStep);
+      return;
+    }
 
-Always provide working Python code that prints the solution.`;
+    let draft: string;
+    try {
+      const { content, usage } = await this.collectStreamedResponse(proposer, draftMessages, onReasoningStep, signal);
+      addUsage(accumulatedUsage, usage);
+      draft = content;
+      onReasoningStep?.({
+        provider: proposer.id,
+        model: proposer.model,
+        action: "propose",
+        content: draft,
+        tokenUsage: usage,
+      });
+    } catch (error: any) {
+      if (signal?.aborted) return;
+      onReasoningStep?.({
+        provider: proposer.id,
+        model: proposer.model,
+        action: "error",
+        content: `Draft failed: ${error.message}. Falling back to parallel consensus.`,
+      });
+      yield* this.solveMultiProvider(userPrompt, providers, onReasoningStep, onTokenUsage, signal, onExpertEvent);
+      return;
+    }
+
+    let lastCritique = "";
+    for (let round = 1; round <= this.plan.refinementRounds && !signal?.aborted; round++) {
+      const critiqueMessages: MessageContent[] = [
+        { role: "system", content: CRITIC_PROMPT },
+        ...task,
+        { role: "user", content: `Draft answer to review:\n\n${draft}` },
+      ];
+      if (!this.budget.canAfford(critic, critiqueMessages)) break;
+
+      let critique: string;
+      try {
+        const { content, usage } = await this.collectStreamedResponse(critic, critiqueMessages, onReasoningStep, signal);
+        addUsage(accumulatedUsage, usage);
+        critique = content;
+        onReasoningStep?.({
+          provider: critic.id,
+          model: critic.model,
+          action: "critique",
+          content: `Round ${round}/${this.plan.refinementRounds}:\n${critique}`,
+          tokenUsage: usage,
+        });
+      } catch (error: any) {
+        if (signal?.aborted) break;
+        onReasoningStep?.({
+          provider: critic.id,
+          model: critic.model,
+          action: "error",
+          content: `Critique failed in round ${round}: ${error.message}. Keeping the current draft.`,
+        });
+        break;
+      }
+
+      const verdict = critique.match(/VERDICT:\s*(ACCEPT|REVISE)/i)?.[1]?.toUpperCase();
+      const review = critique.replace(/\s*VERDICT:[\s\S]*$/i, "").trim();
+      if (verdict === "ACCEPT") {
+        // lastCritique stays on the critique behind the latest revision, if
+        // any; the sign-off itself is only a reasoning step
+        onReasoningStep?.({
+          provider: "orchestrator",
+          model: "refinement-loop",
+          action: "verify",
+          content: `${critic.name} accepted the answer after ${round - 1} revision(s).`,
+        });
+        break;
+      }
+
+      const refineMessages: MessageContent[] = [
+        { role: "system", content: PROPOSER_PROMPT },
+        ...task,
+        { role: "assistant", content: draft },
+        { role: "user", content: REFINE_INSTRUCTION.replace("{critique}", review) },
+      ];
+      if (!this.budget.canAfford(proposer, refineMessages)) break;
+
+      try {
+        const { content, usage } = await this.collectStreamedResponse(proposer, refineMessages, onReasoningStep, signal);
+        addUsage(accumulatedUsage, usage);
+        draft = content;
+        lastCritique = review;
+        onReasoningStep?.({
+          provider: proposer.id,
+          model: proposer.model,
+          action: "refine",
+          content: `Round ${round}/${this.plan.refinementRounds}:\n${draft}`,
+          tokenUsage: usage,
+        });
+      } catch (error: any) {
+        if (signal?.aborted) break;
+        onReasoningStep?.({
+          provider: proposer.id,
+          model: proposer.model,
+          action: "error",
+          content: `Revision failed in round ${round}: ${error.message}. Keeping the previous draft.`,
+        });
+        break;
+      }
+    }
+
+    onTokenUsage?.(accumulatedUsage);
+    if (signal?.aborted) return;
+
+    const answer = lastCritique
+      ? `## Review of Previous Response\n\n${lastCritique}\n\n## Enhanced Response\n\n${draft}`
+      : draft;
+
+    if (this.budget.exceeded) {
+      yield* this.yieldBudgetStop(answer, onReasoningStep);
+      return;
+    }
+
+    onReasoningStep?.({
+      provider: "orchestrator",
+      model: "refinement-loop",
+      action: "complete",
+      content: "Refinement loop completed.",
+      tokenUsage: accumulatedUsage,
+    });
+
+    for await (const chunk of this.yieldBufferedContent(answer)) {
+      yield chunk;
+    }
+  }
+
+  private async* solveSingleProvider(
+    userPrompt: string | MessageContent[],
+    provider: ProviderConfig,
+    onReasoningStep?: (step: ReasoningStep) => void,
+    onTokenUsage?: (usage: TokenUsage) => void,
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
 
     const messages: MessageContent[] = Array.isArray(userPrompt) 
-      ? [{ role: "system", content: systemPrompt }, ...userPrompt]
-      : [{ role: "system", content: systemPrompt }, { role: "user", content: userPrompt }];
+      ? [{ role: "system", content: CODE_SOLVER_PROMPT }, ...userPrompt]
+      : [{ role: "system", content: CODE_SOLVER_PROMPT }, { role: "user", content: userPrompt }];
+
+    if (supportsTools(provider)) {
+      yield* this.solveSingleProviderWithTools(messages, provider, onReasoningStep, onTokenUsage, signal);
+      return;
+    }
 
     let attempts = 0;
-    const maxAttempts = 5;
+    const maxAttempts = this.plan.maxAttempts;
     let solved = false;
     let accumulatedUsage = { inputTokens: 0, outputTokens: 0 };
     let verifiedResponse = "";
     let executionOutput = "";
+    let lastResponse = "";
 
     onReasoningStep?.({
       provider: "orchestrator",
@@ -779,103 +1004,193 @@ Always provide working Python code that prints the solution.`;
       content: `Starting single-model solver with ${provider.name} (max ${maxAttempts} attempts)`,
     });
 
-    while (attempts < maxAttempts && !solved) {
-      attempts++;
-
-      onReasoningStep?.({
-        provider: provider.id,
-        model: provider.model,
-        action: "think",
-        content: `Attempt ${attempts}/${maxAttempts}: Generating code solution...`,
-      });
+    // The expert deadline covers every attempt; a failed or timed-out
+    // attempt is reported and the next one starts.
+    const watchdog = new Watchdog(signal, "expert", resolveTimeouts(provider).expertSeconds);
+    try {
+      while (attempts < maxAttempts && !solved && !watchdog.signal.aborted) {
+        if (!this.budget.canAfford(provider, messages)) break;
+        attempts++;
 
-      const { content: response, usage: stepUsage } = await this.collectStreamedResponse(
-        provider,
-        messages
-      );
+        onReasoningStep?.({
+          provider: provider.id,
+          model: provider.model,
+          action: "think",
+          content: `Attempt ${attempts}/${maxAttempts}: Generating code solution...`,
+        });
 
-      accumulatedUsage.inputTokens += stepUsage.inputTokens;
-      accumulatedUsage.outputTokens += stepUsage.outputTokens;
-      onTokenUsage?.(accumulatedUsage);
+        let response: string;
+        let stepUsage: TokenUsage;
+        try {
+          ({ content: response, usage: stepUsage } = await this.collectStreamedResponse(
+            provider,
+            messages,
+            onReasoningStep,
+            watchdog.signal
+          ));
+        } catch (error: any) {
+          if (watchdog.signal.aborted) break;
+          onReasoningStep?.({
+            provider: provider.id,
+            model: provider.model,
+            action: isTimeout(error) ? "timeout" : "error",
+            content: `Attempt ${attempts}/${maxAttempts} failed: ${error.message}`,
+          });
+          continue;
+        }
 
-      const code = this.extractPythonCode(response);
+        addUsage(accumulatedUsage, stepUsage);
+        onTokenUsage?.(accumulatedUsage);
+        lastResponse = response;
+
+        const code = this.extractPythonCode(response);
+
+        if (!code) {
+          onReasoningStep?.({
+            provider: provider.id,
+            model: provider.model,
+            action: "error",
+            content: `No Python code block found in response. Retrying...`,
+            tokenUsage: stepUsage,
+          });
+
+          messages.push({ role: "assistant", content: response });
+          messages.push({ 
+            role: "user", 
+            content: "Error: No Python code block found. Please provide your solution as Python code wrapped in ```python code blocks with print() statements to show the result." 
+          });
+          continue;
+        }
 
-      if (!code) {
         onReasoningStep?.({
           provider: provider.id,
           model: provider.model,
-          action: "error",
-          content: `No Python code block found in response. Retrying...`,
+          action: "code",
+          content: `Extracted code:\n\`\`\`python\n${code.slice(0, 200)}${code.length > 200 ? '...' : ''}\n\`\`\``,
           tokenUsage: stepUsage,
         });
 
-        messages.push({ role: "assistant", content: response });
-        messages.push({ 
-          role: "user", 
-          content: "Error: No Python code block found. Please provide your solution as Python code wrapped in ```python code blocks with print() statements to show the result." 
-        });
-        continue;
+        const execResult = await executePython(code, watchdog.signal);
+
+        if (execResult.success) {
+          onReasoningStep?.({
+            provider: "executor",
+            model: "python-sandbox",
+            action: "verify",
+            content: `Code executed successfully:\n${execResult.output}`,
+          });
+
+          solved = true;
+          verifiedResponse = response;
+          executionOutput = execResult.output;
+        } else {
+          onReasoningStep?.({
+            provider: "executor",
+            model: "python-sandbox",
+            action: "error",
+            content: `Execution failed: ${execResult.output}`,
+          });
+
+          messages.push({ role: "assistant", content: response });
+          messages.push({ 
+            role: "user", 
+            content: `Error from code execution:\n${execResult.output}\n\nPlease fix the code and try again. Remember to include print() statements to output the result.` 
+          });
+        }
       }
+    } finally {
+      watchdog.clear();
+    }
+
+    if (signal?.aborted) return;
 
+    const deadline = watchdog.signal.reason;
+    if (isTimeout(deadline)) {
       onReasoningStep?.({
         provider: provider.id,
         model: provider.model,
-        action: "code",
-        content: `Extracted code:\n\`\`\`python\n${code.slice(0, 200)}${code.length > 200 ? '...' : ''}\n\`\`\``,
-        tokenUsage: stepUsage,
+        action: "timeout",
+        content: `Single-model solver stopped: ${deadline.message}`,
       });
+    }
 
-      const execResult = await this.executePython(code);
-
-      if (execResult.success) {
-        onReasoningStep?.({
-          provider: "executor",
-          model: "python-sandbox",
-          action: "verify",
-          content: `Code executed successfully:\n${execResult.output}`,
-        });
+    onReasoningStep?.({
+      provider: "orchestrator",
+      model: "agentic-solver",
+      action: "complete",
+      content: `Completed in ${attempts} attempt(s)`,
+      tokenUsage: accumulatedUsage,
+    });
 
-        solved = true;
-        verifiedResponse = response;
-        executionOutput = execResult.output;
-      } else {
-        onReasoningStep?.({
-          provider: "executor",
-          model: "python-sandbox",
-          action: "error",
-          content: `Execution failed: ${execResult.output}`,
-        });
+    if (solved) {
+      const cleanAnswer = this.formatVerifiedAnswer(verifiedResponse, executionOutput);
+      for await (const chunk of this.yieldBufferedContent(cleanAnswer)) {
+        yield chunk;
+      }
+    } else if (this.budget.exceeded) {
+      yield* this.yieldBudgetStop(lastResponse, onReasoningStep);
+    } else {
+      onReasoningStep?.({
+        provider: "orchestrator",
+        model: "agentic-solver",
+        action: "fail",
+        content: `Failed to solve after ${attempts} attempt(s). Returning last response.`,
+      });
 
-        messages.push({ role: "assistant", content: response });
-        messages.push({ 
-          role: "user", 
-          content: `Error from code execution:\n${execResult.output}\n\nPlease fix the code and try again. Remember to include print() statements to output the result.` 
-        });
+      const fallbackContent = "I was unable to solve this problem after multiple attempts. Please try rephrasing your question.";
+      for await (const chunk of this.yieldBufferedContent(fallbackContent)) {
+        yield chunk;
       }
     }
+  }
+
+  // Native tool-calling variant of solveSingleProvider: the model runs its
+  // code through the run_python tool instead of us extracting code blocks.
+  private async* solveSingleProviderWithTools(
+    messages: MessageContent[],
+    provider: ProviderConfig,
+    onReasoningStep?: (step: ReasoningStep) => void,
+    onTokenUsage?: (usage: TokenUsage) => void,
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    onReasoningStep?.({
+      provider: "orchestrator",
+      model: "agentic-solver",
+      action: "analyze",
+      content: `Starting tool-calling solver with ${provider.name}`,
+    });
+
+    const result = await runAgentLoop(provider, messages, {
+      onReasoningStep,
+      signal,
+      budget: this.budget,
+      maxTurns: this.plan.maxAgentTurns,
+    });
+    onTokenUsage?.(result.usage);
+
+    if (signal?.aborted) return;
 
     onReasoningStep?.({
       provider: "orchestrator",
       model: "agentic-solver",
       action: "complete",
-      content: `Completed in ${attempts} attempt(s)`,
-      tokenUsage: accumulatedUsage,
+      content: `Completed in ${result.turns} turn(s)`,
+      tokenUsage: result.usage,
     });
 
-    if (solved) {
-      const explanationText = verifiedResponse.replace(/```[\s\S]*?```/g, "").trim();
-      const cleanAnswer = explanationText 
-        ? `${explanationText}\n\n**Result:**\n\`\`\`\n${executionOutput}\n\`\`\``
-        : `**Result:**\n\`\`\`\n${executionOutput}\n\`\`\``;
+    if (result.solved) {
+      const cleanAnswer = this.formatVerifiedAnswer(result.content, result.executionOutput || "");
       for await (const chunk of this.yieldBufferedContent(cleanAnswer)) {
         yield chunk;
       }
+    } else if (this.budget.exceeded) {
+      yield* this.yieldBudgetStop(result.content, onReasoningStep);
     } else {
       onReasoningStep?.({
         provider: "orchestrator",
         model: "agentic-solver",
         action: "fail",
-        content: `Failed to solve after ${maxAttempts} attempts. Returning last response.`,
+        content: `Failed to solve after ${result.turns} turns.${result.error ? ` Last error: ${result.error}` : ""}`,
       });
 
       const fallbackContent = "I was unable to solve this problem after multiple attempts. Please try rephrasing your question.";
@@ -885,11 +1200,160 @@ Always provide working Python code that prints the solution.`;
     }
   }
 
+  private formatVerifiedAnswer(response: string, executionOutput: string): string {
+    const explanationText = response.replace(/```[\s\S]*?```/g, "").trim();
+    return explanationText 
+      ? `${explanationText}\n\n**Result:**\n\`\`\`\n${executionOutput}\n\`\`\``
+      : `**Result:**\n\`\`\`\n${executionOutput}\n\`\`\``;
+  }
+
+  // Judge and synthesize modes still group answers first: exactly for
+  // structured tasks, semantically otherwise.
+  private groupingAggregator(strategy: ConsensusStrategy, taskType: TaskType): ConsensusAggregator {
+    if (strategy === "exact" || (strategy !== "semantic" && taskType === "structured")) {
+      return this.exactAggregator;
+    }
+    return this.semanticAggregator;
+  }
+
+  // Asks the designated judge to score one answer per consensus group. When
+  // the judge cannot be afforded, fails or replies without scores, the vote
+  // stands.
+  private async judgeConsensus(
+    userPrompt: string | MessageContent[],
+    consensus: ConsensusResult,
+    experts: ProviderConfig[],
+    usage: TokenUsage,
+    onReasoningStep?: (step: ReasoningStep) => void,
+    signal?: AbortSignal
+  ): Promise<ConsensusResult> {
+    const judge = this.consensusModel(experts);
+    const task: MessageContent[] = Array.isArray(userPrompt) ? userPrompt : [{ role: "user", content: userPrompt }];
+    const candidates = judgeCandidates(consensus);
+    const messages = buildJudgeMessages(task, consensus, candidates);
+
+    if (!this.budget.canAfford(judge, messages)) {
+      onReasoningStep?.({
+        provider: judge.id,
+        model: judge.model,
+        action: "error",
+        content: `Skipped judging: ${judge.name} would exceed the spending cap. Keeping the ${consensus.strategy} vote.`,
+      });
+      return consensus;
+    }
+
+    onReasoningStep?.({
+      provider: judge.id,
+      model: judge.model,
+      action: "think",
+      content: `${judge.name} is judging ${candidates.length} candidate answers...`,
+    });
+
+    let reply: { content: string; usage: TokenUsage };
+    try {
+      reply = await this.collectStreamedResponse(judge, messages, onReasoningStep, signal);
+      addUsage(usage, reply.usage);
+    } catch (error: any) {
+      if (!signal?.aborted) {
+        onReasoningStep?.({
+          provider: judge.id,
+          model: judge.model,
+          action: isTimeout(error) ? "timeout" : "error",
+          content: `Judging failed: ${error.message}. Keeping the ${consensus.strategy} vote.`,
+        });
+      }
+      return consensus;
+    }
+
+    try {
+      const judged = applyJudgement(consensus, candidates, parseJudgement(reply.content, candidates.length), judge);
+      onReasoningStep?.({
+        provider: judge.id,
+        model: judge.model,
+        action: "judge",
+        content: describeJudgement(judged.judgement!),
+        tokenUsage: reply.usage,
+      });
+      return judged;
+    } catch (error: any) {
+      onReasoningStep?.({
+        provider: judge.id,
+        model: judge.model,
+        action: "error",
+        content: `${error.message}. Keeping the ${consensus.strategy} vote.\n\n${reply.content}`,
+        tokenUsage: reply.usage,
+      });
+      return consensus;
+    }
+  }
+
+  // Merges every expert answer into one, with disagreements and attributions
+  // spelled out. Falls back to the vote winner like judgeConsensus.
+  private async synthesizeConsensus(
+    userPrompt: string | MessageContent[],
+    consensus: ConsensusResult,
+    experts: ProviderConfig[],
+    usage: TokenUsage,
+    onReasoningStep?: (step: ReasoningStep) => void,
+    signal?: AbortSignal
+  ): Promise<ConsensusResult> {
+    const synthesizer = this.consensusModel(experts);
+    const task: MessageContent[] = Array.isArray(userPrompt) ? userPrompt : [{ role: "user", content: userPrompt }];
+    const messages = buildSynthesisMessages(task, consensus);
+
+    if (!this.budget.canAfford(synthesizer, messages)) {
+      onReasoningStep?.({
+        provider: synthesizer.id,
+        model: synthesizer.model,
+        action: "error",
+        content: `Skipped synthesis: ${synthesizer.name} would exceed the spending cap. Keeping the ${consensus.strategy} vote.`,
+      });
+      return consensus;
+    }
+
+    onReasoningStep?.({
+      provider: synthesizer.id,
+      model: synthesizer.model,
+      action: "think",
+      content: `${synthesizer.name} is merging answers from ${consensus.allGroups.length} group(s)...`,
+    });
+
+    try {
+      const { content, usage: synthesisUsage } = await this.collectStreamedResponse(synthesizer, messages, onReasoningStep, signal);
+      addUsage(usage, synthesisUsage);
+      if (!content.trim()) throw new Error("Synthesizer returned an empty answer");
+      onReasoningStep?.({
+        provider: synthesizer.id,
+        model: synthesizer.model,
+        action: "synthesize",
+        content: `Merged ${consensus.allGroups.map(g => `${g.voteCount} vote(s) from ${g.responses.map(r => r.providerName).join(", ")}`).join("; ")}`,
+        tokenUsage: synthesisUsage,
+      });
+      return applySynthesis(consensus, content, synthesizer);
+    } catch (error: any) {
+      if (!signal?.aborted) {
+        onReasoningStep?.({
+          provider: synthesizer.id,
+          model: synthesizer.model,
+          action: isTimeout(error) ? "timeout" : "error",
+          content: `Synthesis failed: ${error.message}. Keeping the ${consensus.strategy} vote.`,
+        });
+      }
+      return consensus;
+    }
+  }
+
+  private consensusModel(experts: ProviderConfig[]): ProviderConfig {
+    return this.providers.find(p => p.id === this.judgeProviderId) ?? experts[0];
+  }
+
   private async* solveMultiProvider(
     userPrompt: string | MessageContent[],
     providers: ProviderConfig[],
     onReasoningStep?: (step: ReasoningStep) => void,
-    onTokenUsage?: (usage: TokenUsage) => void
+    onTokenUsage?: (usage: TokenUsage) => void,
+    signal?: AbortSignal,
+    onExpertEvent?: (event: ExpertStreamEvent) => void
   ): AsyncGenerator<string> {
     const taskType = this.taskRouter.classifyTask(userPrompt);
     const strategy = this.taskRouter.selectConsensusStrategy(taskType, this.consensusMode);
@@ -898,34 +1362,31 @@ Always provide working Python code that prints the solution.`;
       provider: "orchestrator",
       model: "multi-model-solver",
       action: "analyze",
-      content: `Starting parallel multi-model solver with ${providers.length} providers. Task type: ${taskType}, Consensus strategy: ${strategy}`,
+      content: `Starting parallel multi-model solver with ${providers.length} providers${this.plan.samplesPerExpert > 1 ? ` × ${this.plan.samplesPerExpert} samples` : ""}. Task type: ${taskType}, Consensus strategy: ${strategy}`,
     });
 
     yield `*Running ${providers.length} AI models in parallel...*\n\n`;
 
-    const systemPrompt = `You are a code-based reasoning engine. You must solve problems by writing Python code.
-
-Your approach:
-1. Analyze the problem carefully
-2. Write Python code that solves the problem
-3. Your code MUST include print() statements to show the result
-4. Wrap your code in a \`\`\`python code block
-
-If your code fails, you will receive the error message and must fix it.
-
-Always provide working Python code that prints the solution.`;
 
     const messages: MessageContent[] = Array.isArray(userPrompt) 
-      ? [{ role: "system", content: systemPrompt }, ...userPrompt]
-      : [{ role: "system", content: systemPrompt }, { role: "user", content: userPrompt }];
-
-    const expertConfigs: ExpertConfig[] = providers.map(p => ({
-      ...p,
-      temperature: 1.0,
-      maxRetries: 5,
-    }));
+      ? [{ role: "system", content: CODE_SOLVER_PROMPT }, ...userPrompt]
+      : [{ role: "system", content: CODE_SOLVER_PROMPT }, { role: "user", content: userPrompt }];
+
+    // With self-consistency each provider runs several independent samples;
+    // every sample is its own expert and votes on its own.
+    const samples = this.plan.samplesPerExpert;
+    const expertConfigs: ExpertConfig[] = providers.flatMap(p =>
+      Array.from({ length: samples }, (_, i): ExpertConfig => ({
+        ...p,
+        name: samples > 1 ? `${p.name} #${i + 1}` : p.name,
+        sample: samples > 1 ? i + 1 : undefined,
+        sampling: { temperature: 1.0, ...p.sampling },
+        maxRetries: this.plan.maxAttempts,
+        maxTurns: this.plan.maxAgentTurns,
+      }))
+    );
 
-    const runners = expertConfigs.map(config => new ExpertRunner(config));
+    const runners = expertConfigs.map(config => new ExpertRunner(config, this.budget, onExpertEvent));
 
     for (const config of expertConfigs) {
       onReasoningStep?.({
@@ -936,32 +1397,90 @@ Always provide working Python code that prints the solution.`;
       });
     }
 
-    const runnerPromises = runners.map((runner, index) => 
-      runner.run(messages, (step) => {
+    // Each expert gets its own abort controller so stragglers can be cut short
+    // once enough finished experts agree.
+    // A judge or synthesizer needs every distinct answer, so only a unanimous
+    // run ends early.
+    const aggregator = this.groupingAggregator(strategy, taskType);
+    const waitForAll = strategy === "judge" || strategy === "synthesize";
+    const incremental = new IncrementalConsensus(aggregator, taskType, runners.length, waitForAll ? 1 : this.quorum);
+    const controllers = runners.map(() => new AbortController());
+    const finished = runners.map(() => false);
+    const cutShort = new Set<number>();
+    let quorumConsensus: ConsensusResult | null = null;
+
+    const runnerPromises = runners.map((runner, index) => {
+      const expertSignal = signal
+        ? AbortSignal.any([signal, controllers[index].signal])
+        : controllers[index].signal;
+
+      return runner.run(messages, (step) => {
         onReasoningStep?.(step);
-      })
-    );
+      }, expertSignal).then(async result => {
+        finished[index] = true;
+        if (quorumConsensus || cutShort.has(index)) return result;
+
+        if (result.success) await aggregator.prepare?.([result], signal);
+        if (quorumConsensus) return result;
+
+        quorumConsensus = incremental.add(result);
+        if (quorumConsensus) {
+          controllers.forEach((controller, i) => {
+            if (finished[i]) return;
+            cutShort.add(i);
+            controller.abort(new Error("Cut short: quorum reached"));
+          });
+        }
+        return result;
+      });
+    });
 
     const results: ExpertResult[] = await Promise.all(runnerPromises);
 
     let totalUsage = { inputTokens: 0, outputTokens: 0 };
-    for (const result of results) {
-      totalUsage.inputTokens += result.usage.inputTokens;
-      totalUsage.outputTokens += result.usage.outputTokens;
+    results.forEach((result, index) => {
+      addUsage(totalUsage, result.usage);
+
+      if (cutShort.has(index)) {
+        onReasoningStep?.({
+          provider: result.providerId,
+          model: result.model,
+          action: "cancelled",
+          content: `Cut short after ${result.iterations} iteration(s): ${incremental.votesNeeded} of ${runners.length} experts already agreed`,
+          tokenUsage: result.usage,
+        });
+        return;
+      }
 
       onReasoningStep?.({
         provider: result.providerId,
         model: result.model,
-        action: result.success ? "verify" : "error",
+        action: result.success ? "verify" : result.timedOut ? "timeout" : "error",
         content: result.success 
           ? `Completed in ${result.iterations} iteration(s)` 
           : `Failed after ${result.iterations} iteration(s): ${result.error}`,
         tokenUsage: result.usage,
       });
-    }
+    });
     onTokenUsage?.(totalUsage);
 
-    const successfulResults = results.filter(r => r.success);
+    if (signal?.aborted) return;
+
+    const successfulResults = results.filter((r, index) => r.success && !cutShort.has(index));
+
+    if (successfulResults.length === 0 && this.budget.exceeded) {
+      yield* this.yieldBudgetStop(results.find(r => r.response)?.response || "", onReasoningStep);
+      return;
+    }
+
+    if (this.budget.exceeded) {
+      onReasoningStep?.({
+        provider: "orchestrator",
+        model: "cost-budget",
+        action: "budget_exceeded",
+        content: `${describeBudgetExceeded(this.budget.exceeded)} Using the ${successfulResults.length} expert answer(s) finished so far.`,
+      });
+    }
 
     if (successfulResults.length === 0) {
       onReasoningStep?.({
@@ -981,12 +1500,34 @@ Always provide working Python code that prints the solution.`;
       action: "think",
       content: `Running ${strategy} consensus on ${successfulResults.length} successful responses...`,
     });
+    onExpertEvent?.({ type: "consensus_started", content: strategy });
 
     let consensus: ConsensusResult;
-    if (strategy === "exact") {
-      consensus = this.exactAggregator.aggregate(successfulResults, taskType);
+    if (quorumConsensus) {
+      consensus = quorumConsensus;
+      const stopped = Array.from(cutShort).map(i => expertConfigs[i].name);
+      onReasoningStep?.({
+        provider: "orchestrator",
+        model: "consensus-engine",
+        action: "quorum",
+        content: stopped.length > 0
+          ? `Quorum of ${incremental.votesNeeded}/${runners.length} reached early; cut short: ${stopped.join(", ")}`
+          : `Quorum of ${incremental.votesNeeded}/${runners.length} reached`,
+      });
     } else {
-      consensus = this.semanticAggregator.aggregate(successfulResults, taskType);
+      consensus = aggregator.aggregate(successfulResults, taskType);
+    }
+
+    if (strategy === "judge" && consensus.allGroups.length > 1) {
+      consensus = await this.judgeConsensus(userPrompt, consensus, providers, totalUsage, onReasoningStep, signal);
+      onTokenUsage?.(totalUsage);
+      if (signal?.aborted) return;
+    }
+
+    if (strategy === "synthesize" && countDistinctAnswers(consensus) > 1) {
+      consensus = await this.synthesizeConsensus(userPrompt, consensus, providers, totalUsage, onReasoningStep, signal);
+      onTokenUsage?.(totalUsage);
+      if (signal?.aborted) return;
     }
 
     onReasoningStep?.({
@@ -995,17 +1536,37 @@ Always provide working Python code that prints the solution.`;
       action: "complete",
       content: `Consensus reached: ${consensus.summary} (${Math.round(consensus.agreement * 100)}% agreement)`,
     });
+    onExpertEvent?.({ type: "consensus_complete", content: consensus.summary, consensus });
 
-    yield `**Consensus (${consensus.allGroups.length === 1 ? "unanimous" : `${Math.round(consensus.agreement * 100)}% agreement`}):**\n\n`;
+    if (samples > 1) {
+      onReasoningStep?.({
+        provider: "orchestrator",
+        model: "consensus-engine",
+        action: "votes",
+        content: describeSampleVotes(consensus, measureExpertAgreement(consensus, results, providers)),
+      });
+    }
+
+    if (consensus.synthesis) {
+      // The synthesized answer already covers every group and its disagreements
+      yield `**Synthesized by ${consensus.synthesis.synthesizerName} from ${consensus.allGroups.length} answer group(s):**\n\n`;
+      yield consensus.winningAnswer;
+      return;
+    }
+
+    if (consensus.judgement) {
+      yield `**Judged best by ${consensus.judgement.judgeName} (${Math.round(consensus.agreement * 100)}% agreement):**\n\n`;
+    } else {
+      yield `**Consensus (${consensus.allGroups.length === 1 ? "unanimous" : `${Math.round(consensus.agreement * 100)}% agreement`}):**\n\n`;
+    }
 
     if (consensus.allGroups.length > 1) {
       const contributingModels = consensus.winningGroup.responses.map(r => r.providerName).join(", ");
       yield `*Models agreeing: ${contributingModels}*\n\n`;
     }
 
-    for await (const chunk of this.yieldBufferedContent(consensus.winningAnswer)) {
-      yield chunk;
-    }
+    // The experts' own tokens were already streamed live through onExpertEvent.
+    yield consensus.winningAnswer;
 
     if (consensus.allGroups.length > 1) {
       yield "\n\n---\n\n";
@@ -1014,7 +1575,8 @@ Always provide working Python code that prints the solution.`;
   }
 
   async* chat(
-    messages: MessageContent[]
+    messages: MessageContent[],
+    signal?: AbortSignal
   ): AsyncGenerator<string> {
     const enabledProviders = this.providers.filter(p => p.enabled);
     
@@ -1024,16 +1586,17 @@ Always provide working Python code that prints the solution.`;
     }
 
     if (enabledProviders.length === 1) {
-      yield* this.chatSingleProvider(messages, enabledProviders[0]);
+      yield* this.chatSingleProvider(messages, enabledProviders[0], signal);
       return;
     }
 
-    yield* this.chatMultiProvider(messages, enabledProviders);
+    yield* this.chatMultiProvider(messages, enabledProviders, signal);
   }
 
   private async* chatSingleProvider(
     messages: MessageContent[],
-    provider: ProviderConfig
+    provider: ProviderConfig,
+    signal?: AbortSignal
   ): AsyncGenerator<string> {
     const systemMessage: MessageContent = {
       role: "system",
@@ -1042,28 +1605,15 @@ Always provide working Python code that prints the solution.`;
     
     const fullMessages: MessageContent[] = [systemMessage, ...messages];
 
-    if (provider.id === "openai") {
-      for await (const chunk of streamOpenAI(provider.model, fullMessages)) {
-        yield chunk;
-      }
-    } else if (provider.id === "anthropic") {
-      for await (const chunk of streamAnthropic(provider.model, fullMessages)) {
-        yield chunk;
-      }
-    } else if (provider.id === "openrouter") {
-      for await (const chunk of streamOpenRouter(provider.model, fullMessages)) {
-        yield chunk;
-      }
-    } else if (provider.isCustom) {
-      for await (const chunk of streamCustomProvider(provider, fullMessages)) {
-        yield chunk;
-      }
+    for await (const chunk of streamProvider(provider, fullMessages, undefined, { signal })) {
+      yield chunk;
     }
   }
 
   private async* chatMultiProvider(
     messages: MessageContent[],
-    providers: ProviderConfig[]
+    providers: ProviderConfig[],
+    signal?: AbortSignal
   ): AsyncGenerator<string> {
     const lastUserMessage = messages.filter(m => m.role === "user").pop()?.content || "";
     const taskType = this.taskRouter.classifyTask(lastUserMessage);
@@ -1077,15 +1627,16 @@ Always provide working Python code that prints the solution.`;
 
     const expertConfigs: ExpertConfig[] = providers.map(p => ({
       ...p,
-      temperature: 0.7,
+      sampling: { temperature: 0.7, ...p.sampling },
       maxRetries: 1,
     }));
 
-    const runners = expertConfigs.map(config => new ExpertRunner(config));
+    const runners = expertConfigs.map(config => new ExpertRunner(config, this.budget));
 
-    const runnerPromises = runners.map(runner => runner.runChat(fullMessages));
+    const runnerPromises = runners.map(runner => runner.runChat(fullMessages, undefined, signal));
 
     const results = await Promise.all(runnerPromises);
+    if (signal?.aborted) return;
 
     const successfulResults = results.filter(r => r.success && r.response);
 
@@ -1101,19 +1652,20 @@ Always provide working Python code that prints the solution.`;
       return;
     }
 
-    let consensus: ConsensusResult;
-    if (strategy === "exact") {
-      consensus = this.exactAggregator.aggregate(successfulResults, taskType);
-    } else {
-      consensus = this.semanticAggregator.aggregate(successfulResults, taskType);
-    }
+    const aggregator = this.groupingAggregator(strategy, taskType);
+    await aggregator.prepare?.(successfulResults, signal);
+    const consensus = aggregator.aggregate(successfulResults, taskType);
 
     for await (const chunk of this.yieldBufferedContent(consensus.winningAnswer)) {
       yield chunk;
     }
   }
 
-  async generateTitle(firstMessage: string): Promise<string> {
+  async generateTitle(
+    firstMessage: string,
+    signal?: AbortSignal,
+    onTokenUsage?: (usage: TokenUsage) => void
+  ): Promise<string> {
     const provider = this.providers[0];
     if (!provider) return "New Conversation";
 
@@ -1125,21 +1677,12 @@ Always provide working Python code that prints the solution.`;
       { role: "user", content: firstMessage }
     ];
 
+    // Title and summary calls count toward the spending caps too
+    if (!this.budget.canAfford(provider, messages)) return "New Conversation";
+
     try {
-      let title = "";
-      if (provider.id === "openai") {
-        const result = await callOpenAI(provider.model, messages);
-        title = result.content;
-      } else if (provider.id === "anthropic") {
-        const result = await callAnthropic(provider.model, messages);
-        title = result.content;
-      } else if (provider.id === "openrouter") {
-        const result = await callOpenRouter(provider.model, messages);
-        title = result.content;
-      } else if (provider.isCustom) {
-        const result = await callCustomProvider(provider, messages);
-        title = result.content;
-      }
+      const { content: title, usage } = await this.budget.spend(provider, messages, () => callProvider(provider, messages, { signal }));
+      onTokenUsage?.(usage);
       return title.trim().replace(/^["']|["']$/g, "").slice(0, 60);
     } catch (error) {
       console.error("Error generating title:", error);
@@ -1147,7 +1690,11 @@ Always provide working Python code that prints the solution.`;
     }
   }
 
-  async generateSummary(prompt: string): Promise<string> {
+  async generateSummary(
+    prompt: string,
+    signal?: AbortSignal,
+    onTokenUsage?: (usage: TokenUsage) => void
+  ): Promise<string> {
     const provider = this.providers[0];
     if (!provider) return "";
 
@@ -1159,21 +1706,11 @@ Always provide working Python code that prints the solution.`;
       { role: "user", content: prompt }
     ];
 
+    if (!this.budget.canAfford(provider, messages)) return "";
+
     try {
-      let summary = "";
-      if (provider.id === "openai") {
-        const result = await callOpenAI(provider.model, messages);
-        summary = result.content;
-      } else if (provider.id === "anthropic") {
-        const result = await callAnthropic(provider.model, messages);
-        summary = result.content;
-      } else if (provider.id === "openrouter") {
-        const result = await callOpenRouter(provider.model, messages);
-        summary = result.content;
-      } else if (provider.isCustom) {
-        const result = await callCustomProvider(provider, messages);
-        summary = result.content;
-      }
+      const { content: summary, usage } = await this.budget.spend(provider, messages, () => callProvider(provider, messages, { signal }));
+      onTokenUsage?.(usage);
       return summary.trim();
     } catch (error) {
       console.error("Error generating summary:", error);
@@ -0,0 +1,79 @@
+import type { ReasoningStep, TokenUsage } from "./providers";
+
+// USD per million tokens. cachedInput applies to prompt tokens served from
+// the provider's prompt cache.
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cachedInput?: number;
+}
+
+// Keys are model ids as sent to the provider; dated snapshots such as
+// "claude-sonnet-4-5-20250929" resolve to the longest matching prefix.
+export const MODEL_CATALOG: Record<string, ModelPrice> = {
+  "gpt-5": { input: 1.25, output: 10, cachedInput: 0.125 },
+  "gpt-5-mini": { input: 0.25, output: 2, cachedInput: 0.025 },
+  "gpt-4o": { input: 2.5, output: 10, cachedInput: 1.25 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  "claude-opus-4-5": { input: 5, output: 25, cachedInput: 0.5 },
+  "claude-sonnet-4-5": { input: 3, output: 15, cachedInput: 0.3 },
+  "claude-haiku-4-5": { input: 1, output: 5, cachedInput: 0.1 },
+  "gemini-2.5-pro": { input: 1.25, output: 10, cachedInput: 0.125 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5, cachedInput: 0.03 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4, cachedInput: 0.01 },
+  "meta-llama/llama-3.3-70b-instruct": { input: 0.13, output: 0.4 },
+  "meta-llama/llama-3.1-405b-instruct": { input: 0.8, output: 0.8 },
+  "mistralai/mistral-large-2411": { input: 2, output: 6 },
+  "mistralai/mistral-small-2503": { input: 0.1, output: 0.3 },
+  "qwen/qwen-2.5-72b-instruct": { input: 0.12, output: 0.39 },
+  "deepseek/deepseek-chat-v3-0324": { input: 0.27, output: 1.1 },
+  "deepseek/deepseek-r1": { input: 0.55, output: 2.19 },
+  "x-ai/grok-2-1212": { input: 2, output: 10 },
+  "google/gemini-2.0-flash-001": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  "google/gemini-2.5-pro-preview-03-25": { input: 1.25, output: 10 },
+};
+
+export function getModelPrice(model: string): ModelPrice | undefined {
+  if (MODEL_CATALOG[model]) return MODEL_CATALOG[model];
+  const prefix = Object.keys(MODEL_CATALOG)
+    .filter(id => model.startsWith(id))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_CATALOG[prefix] : undefined;
+}
+
+// Models missing from the catalog (local, custom, mock) cost nothing.
+export function computeCost(model: string, usage: TokenUsage): number {
+  const price = getModelPrice(model);
+  if (!price) return 0;
+  const cached = Math.min(usage.cachedInputTokens || 0, usage.inputTokens);
+  const uncached = usage.inputTokens - cached;
+  const cost = (
+    uncached * price.input +
+    cached * (price.cachedInput ?? price.input) +
+    usage.outputTokens * price.output
+  ) / 1_000_000;
+  return Math.round(cost * 1e8) / 1e8;
+}
+
+export function withCost(model: string, usage: TokenUsage): TokenUsage {
+  return { ...usage, cost: computeCost(model, usage) };
+}
+
+// Accumulates usage across calls, keeping the cost of each call as priced
+// for its own model.
+export function addUsage(total: TokenUsage, usage: TokenUsage): void {
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  if (usage.cachedInputTokens) {
+    total.cachedInputTokens = (total.cachedInputTokens || 0) + usage.cachedInputTokens;
+  }
+  if (usage.cost !== undefined) {
+    total.cost = Math.round(((total.cost || 0) + usage.cost) * 1e8) / 1e8;
+  }
+}
+
+export function stepCost(step: ReasoningStep): number | undefined {
+  if (step.cost !== undefined) return step.cost;
+  if (!step.tokenUsage) return undefined;
+  return step.tokenUsage.cost ?? computeCost(step.model, step.tokenUsage);
+}
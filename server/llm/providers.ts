@@ -1,29 +1,110 @@
 import OpenAI from "openai";
 import Anthropic from "@anthropic-ai/sdk";
+import { GoogleGenAI, type Content, type GenerateContentResponseUsageMetadata, type Part } from "@google/genai";
 
+// SDK-level retries are disabled on every client; retry, backoff and
+// fallback are handled uniformly in registry.ts.
 export const openai = new OpenAI({
   baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY
+  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
+  maxRetries: 0,
 });
 
 export const anthropic = new Anthropic({
   apiKey: process.env.AI_INTEGRATIONS_ANTHROPIC_API_KEY,
   baseURL: process.env.AI_INTEGRATIONS_ANTHROPIC_BASE_URL,
+  maxRetries: 0,
 });
 
 export const openrouter = new OpenAI({
   baseURL: process.env.AI_INTEGRATIONS_OPENROUTER_BASE_URL,
-  apiKey: process.env.AI_INTEGRATIONS_OPENROUTER_API_KEY
+  apiKey: process.env.AI_INTEGRATIONS_OPENROUTER_API_KEY,
+  maxRetries: 0,
 });
 
+// Created on the first Gemini call: the SDK warns at construction when no key
+// is set, and most deployments never use Gemini.
+let geminiClient: GoogleGenAI | undefined;
+
+export function getGeminiClient(): GoogleGenAI {
+  if (!process.env.AI_INTEGRATIONS_GEMINI_API_KEY) {
+    throw new Error("Gemini not configured: set AI_INTEGRATIONS_GEMINI_API_KEY");
+  }
+  if (!geminiClient) {
+    geminiClient = new GoogleGenAI({
+      apiKey: process.env.AI_INTEGRATIONS_GEMINI_API_KEY,
+      httpOptions: {
+        baseUrl: process.env.AI_INTEGRATIONS_GEMINI_BASE_URL,
+      },
+    });
+  }
+  return geminiClient;
+}
+
+export interface FallbackTarget {
+  id: string;
+  name?: string;
+  model: string;
+  // The pool entry the id refers to, attached per request by
+  // attachFallbackConfigs; never stored
+  config?: ProviderConfig;
+}
+
+export type ReasoningEffort = "minimal" | "low" | "medium" | "high";
+
+export interface SamplingParams {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  // OpenAI reasoning models (GPT-5, o-series) only
+  reasoningEffort?: ReasoningEffort;
+  // Anthropic extended thinking only
+  thinkingBudgetTokens?: number;
+}
+
+// Enforced server-wide per provider kind, endpoint and model by scheduler.ts.
+export interface RateLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  maxConcurrent?: number;
+}
+
+// Wall-clock limits in seconds, applied by timeouts.ts; 0 disables a limit.
+export interface ExpertTimeouts {
+  // One model call (one attempt or agent turn)
+  attemptSeconds?: number;
+  // Everything one expert does in a run, retries and code execution included
+  expertSeconds?: number;
+  // Gap between streamed chunks, counted from the first chunk
+  stallSeconds?: number;
+}
+
+export const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
+export const MIN_THINKING_BUDGET_TOKENS = 1024;
+
+// Reasoning a model did before answering: Claude returns the thinking text,
+// OpenAI reasoning models only report how many hidden tokens were spent.
+export interface ThinkingTrace {
+  content: string;
+  reasoningTokens: number;
+}
+
 export interface ProviderConfig {
   id: string;
   name: string;
   enabled: boolean;
   model: string;
+  kind?: string;
   isCustom?: boolean;
   baseUrl?: string;
   apiKey?: string;
+  contextLength?: number;
+  fallbacks?: FallbackTarget[];
+  sampling?: SamplingParams;
+  promptPrefix?: string;
+  rateLimits?: RateLimits;
+  timeouts?: ExpertTimeouts;
 }
 
 const customClientCache = new Map<string, OpenAI>();
@@ -39,7 +120,8 @@ export function getCustomClient(provider: ProviderConfig): OpenAI {
   if (!client) {
     client = new OpenAI({
       baseURL: provider.baseUrl,
-      apiKey: provider.apiKey || "not-required"
+      apiKey: provider.apiKey || "not-required",
+      maxRetries: 0,
     });
     customClientCache.set(cacheKey, client);
   }
@@ -49,7 +131,9 @@ export function getCustomClient(provider: ProviderConfig): OpenAI {
 
 export async function callCustomProvider(
   provider: ProviderConfig,
-  messages: Array<MessageContent>
+  messages: Array<MessageContent>,
+  signal?: AbortSignal,
+  sampling: SamplingParams = {}
 ): Promise<{ content: string; usage: TokenUsage }> {
   const client = getCustomClient(provider);
   const formattedMessages = buildOpenAIMessages(messages);
@@ -57,14 +141,15 @@ export async function callCustomProvider(
   const response = await client.chat.completions.create({
     model: provider.model,
     messages: formattedMessages,
-    max_completion_tokens: 8192,
-  });
+    ...buildOpenAISamplingParams(provider.model, sampling),
+  }, { signal });
   
   return {
     content: response.choices[0]?.message?.content || "",
     usage: {
       inputTokens: response.usage?.prompt_tokens || 0,
       outputTokens: response.usage?.completion_tokens || 0,
+      cachedInputTokens: response.usage?.prompt_tokens_details?.cached_tokens || 0,
     }
   };
 }
@@ -72,7 +157,9 @@ export async function callCustomProvider(
 export async function* streamCustomProvider(
   provider: ProviderConfig,
   messages: Array<MessageContent>,
-  onUsage?: (usage: TokenUsage) => void
+  onUsage?: (usage: TokenUsage) => void,
+  signal?: AbortSignal,
+  sampling: SamplingParams = {}
 ): AsyncGenerator<string> {
   const client = getCustomClient(provider);
   const formattedMessages = buildOpenAIMessages(messages);
@@ -80,10 +167,10 @@ export async function* streamCustomProvider(
   const stream = await client.chat.completions.create({
     model: provider.model,
     messages: formattedMessages,
-    max_completion_tokens: 8192,
+    ...buildOpenAISamplingParams(provider.model, sampling),
     stream: true,
     stream_options: { include_usage: true },
-  });
+  }, { signal });
 
   let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
 
@@ -97,6 +184,7 @@ export async function* streamCustomProvider(
         usage = {
           inputTokens: chunk.usage.prompt_tokens || 0,
           outputTokens: chunk.usage.completion_tokens || 0,
+          cachedInputTokens: chunk.usage.prompt_tokens_details?.cached_tokens || 0,
         };
       }
     }
@@ -111,10 +199,33 @@ export interface ImageAttachment {
   url: string;
 }
 
+// Provider-neutral tool schema; `parameters` is a JSON Schema object.
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+// Assistant turns may carry toolCalls; results go back as role "tool" with
+// the toolCallId they answer.
 export interface MessageContent {
   role: string;
   content: string;
   images?: ImageAttachment[];
+  toolCalls?: ToolCall[];
+  toolCallId?: string;
+}
+
+export interface ToolCallResponse {
+  content: string;
+  toolCalls: ToolCall[];
+  usage: TokenUsage;
 }
 
 export interface ReasoningStep {
@@ -123,11 +234,16 @@ export interface ReasoningStep {
   action: string;
   content: string;
   tokenUsage?: TokenUsage;
+  cost?: number;
 }
 
 export interface TokenUsage {
   inputTokens: number;
   outputTokens: number;
+  // Portion of inputTokens served from the provider's prompt cache
+  cachedInputTokens?: number;
+  // USD, from the price table in pricing.ts
+  cost?: number;
 }
 
 export interface StreamResult {
@@ -137,42 +253,164 @@ export interface StreamResult {
 
 export async function callOpenAI(
   model: string,
-  messages: Array<MessageContent>
+  messages: Array<MessageContent>,
+  signal?: AbortSignal,
+  sampling: SamplingParams = {},
+  onThinking?: (trace: ThinkingTrace) => void
 ): Promise<{ content: string; usage: TokenUsage }> {
   const formattedMessages = buildOpenAIMessages(messages);
   const response = await openai.chat.completions.create({
     model,
     messages: formattedMessages,
-    max_completion_tokens: 8192,
-  });
+    ...buildOpenAISamplingParams(model, sampling),
+  }, { signal });
+  const reasoningTokens = response.usage?.completion_tokens_details?.reasoning_tokens || 0;
+  if (reasoningTokens > 0) {
+    onThinking?.({ content: "", reasoningTokens });
+  }
   return {
     content: response.choices[0]?.message?.content || "",
     usage: {
       inputTokens: response.usage?.prompt_tokens || 0,
       outputTokens: response.usage?.completion_tokens || 0,
+      cachedInputTokens: response.usage?.prompt_tokens_details?.cached_tokens || 0,
     }
   };
 }
 
+export const OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
+
+export async function embedOpenAI(
+  texts: string[],
+  signal?: AbortSignal
+): Promise<{ vectors: number[][]; usage: TokenUsage }> {
+  const response = await openai.embeddings.create({
+    model: OPENAI_EMBEDDING_MODEL,
+    input: texts,
+  }, { signal });
+  return {
+    vectors: response.data.sort((a, b) => a.index - b.index).map(d => d.embedding),
+    usage: { inputTokens: response.usage?.prompt_tokens || 0, outputTokens: 0 },
+  };
+}
+
 export async function callAnthropic(
   model: string,
-  messages: Array<MessageContent>
+  messages: Array<MessageContent>,
+  signal?: AbortSignal,
+  sampling: SamplingParams = {},
+  onThinking?: (trace: ThinkingTrace) => void
 ): Promise<{ content: string; usage: TokenUsage }> {
   const systemMessage = messages.find(m => m.role === "system");
   const formattedMessages = buildAnthropicMessages(messages);
   
   const response = await anthropic.messages.create({
     model,
-    max_tokens: 8192,
+    ...buildAnthropicSamplingParams(sampling),
     system: systemMessage?.content,
     messages: formattedMessages,
-  });
+  }, { signal });
+
+  // With extended thinking enabled the answer follows one or more thinking blocks.
+  const thinking = response.content.map(block => block.type === "thinking" ? block.thinking : "").join("");
+  if (thinking) {
+    onThinking?.({ content: thinking, reasoningTokens: 0 });
+  }
+  return {
+    content: response.content.map(block => block.type === "text" ? block.text : "").join(""),
+    usage: {
+      ...toAnthropicInputUsage(response.usage),
+      outputTokens: response.usage?.output_tokens || 0,
+    }
+  };
+}
+
+// With onChunk the turn is streamed: text deltas are forwarded as they
+// arrive and tool calls are assembled from the stream.
+export async function callOpenAIWithTools(
+  model: string,
+  messages: Array<MessageContent>,
+  tools: ToolDefinition[],
+  signal?: AbortSignal,
+  sampling: SamplingParams = {},
+  onChunk?: (chunk: string) => void
+): Promise<ToolCallResponse> {
+  const body = {
+    model,
+    messages: buildOpenAIMessages(messages),
+    tools: buildOpenAITools(tools),
+    ...buildOpenAISamplingParams(model, sampling),
+  };
+  let response;
+  if (onChunk) {
+    const stream = openai.chat.completions.stream({ ...body, stream_options: { include_usage: true } }, { signal });
+    stream.on("content.delta", ({ delta }) => onChunk(delta));
+    response = await stream.finalChatCompletion();
+  } else {
+    response = await openai.chat.completions.create(body, { signal });
+  }
+
+  const message = response.choices[0]?.message;
+  return {
+    content: message?.content || "",
+    toolCalls: (message?.tool_calls || [])
+      .filter(call => call.type === "function")
+      .map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments),
+      })),
+    usage: {
+      inputTokens: response.usage?.prompt_tokens || 0,
+      outputTokens: response.usage?.completion_tokens || 0,
+      cachedInputTokens: response.usage?.prompt_tokens_details?.cached_tokens || 0,
+    }
+  };
+}
+
+// Extended thinking is not used with tools: Claude would require the signed
+// thinking blocks to be echoed back alongside every tool_use turn.
+export async function callAnthropicWithTools(
+  model: string,
+  messages: Array<MessageContent>,
+  tools: ToolDefinition[],
+  signal?: AbortSignal,
+  sampling: SamplingParams = {},
+  onChunk?: (chunk: string) => void
+): Promise<ToolCallResponse> {
+  const systemMessage = messages.find(m => m.role === "system");
+  const body = {
+    model,
+    ...buildAnthropicSamplingParams({ ...sampling, thinkingBudgetTokens: undefined }),
+    system: systemMessage?.content,
+    messages: buildAnthropicMessages(messages),
+    tools: buildAnthropicTools(tools),
+  };
+
+  let response;
+  if (onChunk) {
+    const stream = anthropic.messages.stream(body, { signal });
+    stream.on("text", (text) => onChunk(text));
+    response = await stream.finalMessage();
+  } else {
+    response = await anthropic.messages.create(body, { signal });
+  }
+
+  const toolCalls: ToolCall[] = [];
+  let content = "";
+  for (const block of response.content) {
+    if (block.type === "text") {
+      content += block.text;
+    } else if (block.type === "tool_use") {
+      toolCalls.push({ id: block.id, name: block.name, arguments: (block.input as Record<string, any>) || {} });
+    }
+  }
 
-  const content = response.content[0];
   return {
-    content: content.type === "text" ? content.text : "",
+    content,
+    toolCalls,
     usage: {
-      inputTokens: response.usage?.input_tokens || 0,
+      ...toAnthropicInputUsage(response.usage),
       outputTokens: response.usage?.output_tokens || 0,
     }
   };
@@ -202,6 +440,7 @@ export async function streamOpenAIWithUsage(
       usage = {
         inputTokens: chunk.usage.prompt_tokens || 0,
         outputTokens: chunk.usage.completion_tokens || 0,
+        cachedInputTokens: chunk.usage.prompt_tokens_details?.cached_tokens || 0,
       };
     }
   }
@@ -209,8 +448,88 @@ export async function streamOpenAIWithUsage(
   return { content, usage };
 }
 
+// Matches both direct ids ("gpt-5") and OpenRouter-style ids ("openai/o3-mini").
+export function isOpenAIReasoningModel(model: string): boolean {
+  return /(^|\/)(o\d|gpt-5)/.test(model);
+}
+
+// Reasoning models reject custom temperature, top_p and stop sequences.
+function buildOpenAISamplingParams(model: string, sampling: SamplingParams) {
+  const reasoning = isOpenAIReasoningModel(model);
+  return {
+    max_completion_tokens: sampling.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+    temperature: reasoning ? undefined : sampling.temperature,
+    top_p: reasoning ? undefined : sampling.topP,
+    stop: !reasoning && sampling.stopSequences?.length ? sampling.stopSequences.slice(0, 4) : undefined,
+    reasoning_effort: reasoning ? sampling.reasoningEffort : undefined,
+  };
+}
+
+// Thinking tokens count against max_tokens, so the budget is added on top of
+// the answer allowance. Claude rejects temperature and top_p changes while
+// thinking is enabled.
+function buildAnthropicSamplingParams(sampling: SamplingParams) {
+  const maxTokens = sampling.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS;
+  const stopSequences = sampling.stopSequences?.length ? sampling.stopSequences : undefined;
+
+  if (sampling.thinkingBudgetTokens) {
+    const budget = Math.max(sampling.thinkingBudgetTokens, MIN_THINKING_BUDGET_TOKENS);
+    return {
+      max_tokens: maxTokens + budget,
+      thinking: { type: "enabled" as const, budget_tokens: budget },
+      stop_sequences: stopSequences,
+    };
+  }
+
+  return {
+    max_tokens: maxTokens,
+    temperature: sampling.temperature,
+    top_p: sampling.topP,
+    stop_sequences: stopSequences,
+  };
+}
+
+function buildGeminiSamplingParams(sampling: SamplingParams) {
+  return {
+    maxOutputTokens: sampling.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+    temperature: sampling.temperature,
+    topP: sampling.topP,
+    stopSequences: sampling.stopSequences?.length ? sampling.stopSequences : undefined,
+  };
+}
+
+function parseToolArguments(raw: string): Record<string, any> {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    console.warn('[Tools] Could not parse tool call arguments:', raw.slice(0, 100));
+    return {};
+  }
+}
+
+function buildOpenAITools(tools: ToolDefinition[]): any[] {
+  return tools.map(t => ({
+    type: "function",
+    function: { name: t.name, description: t.description, parameters: t.parameters },
+  }));
+}
+
 function buildOpenAIMessages(messages: Array<MessageContent>): any[] {
   return messages.map(m => {
+    if (m.role === "tool") {
+      return { role: "tool", tool_call_id: m.toolCallId, content: m.content };
+    }
+    if (m.toolCalls && m.toolCalls.length > 0) {
+      return {
+        role: "assistant",
+        content: m.content || null,
+        tool_calls: m.toolCalls.map(call => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
     if (m.images && m.images.length > 0) {
       const content: any[] = [{ type: "text", text: m.content }];
       for (const img of m.images) {
@@ -234,19 +553,23 @@ function buildOpenAIMessages(messages: Array<MessageContent>): any[] {
 export async function* streamOpenAI(
   model: string,
   messages: Array<MessageContent>,
-  onUsage?: (usage: TokenUsage) => void
+  onUsage?: (usage: TokenUsage) => void,
+  signal?: AbortSignal,
+  sampling: SamplingParams = {},
+  onThinking?: (trace: ThinkingTrace) => void
 ): AsyncGenerator<string> {
   const formattedMessages = buildOpenAIMessages(messages);
   
   const stream = await openai.chat.completions.create({
     model,
     messages: formattedMessages,
-    max_completion_tokens: 8192,
+    ...buildOpenAISamplingParams(model, sampling),
     stream: true,
     stream_options: { include_usage: true },
-  });
+  }, { signal });
 
   let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let reasoningTokens = 0;
 
   try {
     for await (const chunk of stream) {
@@ -258,9 +581,14 @@ export async function* streamOpenAI(
         usage = {
           inputTokens: chunk.usage.prompt_tokens || 0,
           outputTokens: chunk.usage.completion_tokens || 0,
+          cachedInputTokens: chunk.usage.prompt_tokens_details?.cached_tokens || 0,
         };
+        reasoningTokens = chunk.usage.completion_tokens_details?.reasoning_tokens || 0;
       }
     }
+    if (reasoningTokens > 0) {
+      onThinking?.({ content: "", reasoningTokens });
+    }
   } finally {
     onUsage?.(usage);
   }
@@ -342,60 +670,112 @@ function prepareImageForAPI(img: { mimeType: string; url: string }): { mediaType
   };
 }
 
+// Anthropic reports cache reads and writes separately from input_tokens;
+// fold them in so inputTokens means the whole prompt, as for other vendors.
+function toAnthropicInputUsage(usage: Anthropic.Usage | undefined): Pick<TokenUsage, "inputTokens" | "cachedInputTokens"> {
+  const cached = usage?.cache_read_input_tokens || 0;
+  return {
+    inputTokens: (usage?.input_tokens || 0) + (usage?.cache_creation_input_tokens || 0) + cached,
+    cachedInputTokens: cached,
+  };
+}
+
+function buildAnthropicTools(tools: ToolDefinition[]): any[] {
+  return tools.map(t => ({ name: t.name, description: t.description, input_schema: t.parameters }));
+}
+
+// Anthropic expects tool results as tool_result blocks in a user turn, with
+// all results for one assistant turn grouped into a single message.
 function buildAnthropicMessages(messages: Array<MessageContent>): any[] {
-  return messages.filter(m => m.role !== "system").map(m => {
-    if (m.images && m.images.length > 0) {
-      const content: any[] = [{ type: "text", text: m.content }];
-      for (const img of m.images) {
-        const prepared = prepareImageForAPI(img);
-        if (prepared) {
-          // Anthropic expects raw base64 data (NOT data URL prefix)
-          content.push({
-            type: "image",
-            source: {
-              type: "base64",
-              media_type: prepared.mediaType,
-              data: prepared.base64Data
-            }
-          });
-        } else {
-          console.warn('[Image] Skipping invalid image attachment for Anthropic:', img.mimeType);
-        }
+  const formatted: any[] = [];
+  for (const m of messages.filter(m => m.role !== "system")) {
+    if (m.role === "tool") {
+      const block = { type: "tool_result", tool_use_id: m.toolCallId, content: m.content };
+      const previous = formatted[formatted.length - 1];
+      if (previous?.role === "user" && Array.isArray(previous.content) && previous.content[0]?.type === "tool_result") {
+        previous.content.push(block);
+      } else {
+        formatted.push({ role: "user", content: [block] });
       }
-      return { role: m.role as "user" | "assistant", content };
+      continue;
     }
-    return { role: m.role as "user" | "assistant", content: m.content };
-  });
+    if (m.toolCalls && m.toolCalls.length > 0) {
+      const content: any[] = m.content ? [{ type: "text", text: m.content }] : [];
+      for (const call of m.toolCalls) {
+        content.push({ type: "tool_use", id: call.id, name: call.name, input: call.arguments });
+      }
+      formatted.push({ role: "assistant", content });
+      continue;
+    }
+    formatted.push(buildAnthropicMessage(m));
+  }
+  return formatted;
+}
+
+function buildAnthropicMessage(m: MessageContent): any {
+  if (m.images && m.images.length > 0) {
+    const content: any[] = [{ type: "text", text: m.content }];
+    for (const img of m.images) {
+      const prepared = prepareImageForAPI(img);
+      if (prepared) {
+        // Anthropic expects raw base64 data (NOT data URL prefix)
+        content.push({
+          type: "image",
+          source: {
+            type: "base64",
+            media_type: prepared.mediaType,
+            data: prepared.base64Data
+          }
+        });
+      } else {
+        console.warn('[Image] Skipping invalid image attachment for Anthropic:', img.mimeType);
+      }
+    }
+    return { role: m.role as "user" | "assistant", content };
+  }
+  return { role: m.role as "user" | "assistant", content: m.content };
 }
 
 export async function* streamAnthropic(
   model: string,
   messages: Array<MessageContent>,
-  onUsage?: (usage: TokenUsage) => void
+  onUsage?: (usage: TokenUsage) => void,
+  signal?: AbortSignal,
+  sampling: SamplingParams = {},
+  onThinking?: (trace: ThinkingTrace) => void
 ): AsyncGenerator<string> {
   const systemMessage = messages.find(m => m.role === "system");
   const formattedMessages = buildAnthropicMessages(messages);
   
   const stream = await anthropic.messages.create({
     model,
-    max_tokens: 8192,
+    ...buildAnthropicSamplingParams(sampling),
     system: systemMessage?.content,
     messages: formattedMessages,
     stream: true,
-  });
+  }, { signal });
 
   let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let thinking = "";
 
   try {
     for await (const event of stream) {
       if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
         yield event.delta.text;
       }
+      if (event.type === "content_block_delta" && event.delta.type === "thinking_delta") {
+        thinking += event.delta.thinking;
+      }
+      // Thinking blocks precede the answer, so report each one as soon as it closes.
+      if (event.type === "content_block_stop" && thinking) {
+        onThinking?.({ content: thinking, reasoningTokens: 0 });
+        thinking = "";
+      }
       if (event.type === "message_delta" && event.usage) {
         usage.outputTokens = event.usage.output_tokens || 0;
       }
       if (event.type === "message_start" && event.message?.usage) {
-        usage.inputTokens = event.message.usage.input_tokens || 0;
+        usage = { ...usage, ...toAnthropicInputUsage(event.message.usage) };
       }
     }
   } finally {
@@ -405,19 +785,22 @@ export async function* streamAnthropic(
 
 export async function callOpenRouter(
   model: string,
-  messages: Array<MessageContent>
+  messages: Array<MessageContent>,
+  signal?: AbortSignal,
+  sampling: SamplingParams = {}
 ): Promise<{ content: string; usage: TokenUsage }> {
   const formattedMessages = buildOpenAIMessages(messages);
   const response = await openrouter.chat.completions.create({
     model,
     messages: formattedMessages,
-    max_completion_tokens: 8192,
-  });
+    ...buildOpenAISamplingParams(model, sampling),
+  }, { signal });
   return {
     content: response.choices[0]?.message?.content || "",
     usage: {
       inputTokens: response.usage?.prompt_tokens || 0,
       outputTokens: response.usage?.completion_tokens || 0,
+      cachedInputTokens: response.usage?.prompt_tokens_details?.cached_tokens || 0,
     }
   };
 }
@@ -425,17 +808,19 @@ export async function callOpenRouter(
 export async function* streamOpenRouter(
   model: string,
   messages: Array<MessageContent>,
-  onUsage?: (usage: TokenUsage) => void
+  onUsage?: (usage: TokenUsage) => void,
+  signal?: AbortSignal,
+  sampling: SamplingParams = {}
 ): AsyncGenerator<string> {
   const formattedMessages = buildOpenAIMessages(messages);
   
   const stream = await openrouter.chat.completions.create({
     model,
     messages: formattedMessages,
-    max_completion_tokens: 8192,
+    ...buildOpenAISamplingParams(model, sampling),
     stream: true,
     stream_options: { include_usage: true },
-  });
+  }, { signal });
 
   let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
 
@@ -449,6 +834,7 @@ export async function* streamOpenRouter(
         usage = {
           inputTokens: chunk.usage.prompt_tokens || 0,
           outputTokens: chunk.usage.completion_tokens || 0,
+          cachedInputTokens: chunk.usage.prompt_tokens_details?.cached_tokens || 0,
         };
       }
     }
@@ -456,3 +842,95 @@ export async function* streamOpenRouter(
     onUsage?.(usage);
   }
 }
+
+function buildGeminiContents(messages: Array<MessageContent>): Content[] {
+  return messages.filter(m => m.role !== "system").map(m => {
+    const parts: Part[] = [{ text: m.content }];
+    if (m.images && m.images.length > 0) {
+      for (const img of m.images) {
+        const prepared = prepareImageForAPI(img);
+        if (prepared) {
+          // Gemini expects raw base64 data as inline data, like Anthropic
+          parts.push({
+            inlineData: {
+              mimeType: prepared.mediaType,
+              data: prepared.base64Data
+            }
+          });
+        } else {
+          console.warn('[Image] Skipping invalid image attachment for Gemini:', img.mimeType);
+        }
+      }
+    }
+    return { role: m.role === "assistant" ? "model" : "user", parts };
+  });
+}
+
+// Thinking tokens are billed as output but reported separately.
+function geminiUsage(metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage {
+  return {
+    inputTokens: metadata?.promptTokenCount || 0,
+    outputTokens: (metadata?.candidatesTokenCount || 0) + (metadata?.thoughtsTokenCount || 0),
+    cachedInputTokens: metadata?.cachedContentTokenCount || 0,
+  };
+}
+
+export async function callGemini(
+  model: string,
+  messages: Array<MessageContent>,
+  signal?: AbortSignal,
+  sampling: SamplingParams = {}
+): Promise<{ content: string; usage: TokenUsage }> {
+  const systemMessage = messages.find(m => m.role === "system");
+
+  const response = await getGeminiClient().models.generateContent({
+    model,
+    contents: buildGeminiContents(messages),
+    config: {
+      systemInstruction: systemMessage?.content,
+      ...buildGeminiSamplingParams(sampling),
+      abortSignal: signal,
+    },
+  });
+
+  return {
+    content: response.text || "",
+    usage: geminiUsage(response.usageMetadata),
+  };
+}
+
+export async function* streamGemini(
+  model: string,
+  messages: Array<MessageContent>,
+  onUsage?: (usage: TokenUsage) => void,
+  signal?: AbortSignal,
+  sampling: SamplingParams = {}
+): AsyncGenerator<string> {
+  const systemMessage = messages.find(m => m.role === "system");
+
+  const stream = await getGeminiClient().models.generateContentStream({
+    model,
+    contents: buildGeminiContents(messages),
+    config: {
+      systemInstruction: systemMessage?.content,
+      ...buildGeminiSamplingParams(sampling),
+      abortSignal: signal,
+    },
+  });
+
+  let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+  try {
+    for await (const chunk of stream) {
+      const content = chunk.text;
+      if (content) {
+        yield content;
+      }
+      if (chunk.usageMetadata) {
+        usage = geminiUsage(chunk.usageMetadata);
+      }
+    }
+  } finally {
+    onUsage?.(usage);
+  }
+}
@@ -0,0 +1,412 @@
+import type {
+  ProviderConfig,
+  MessageContent,
+  TokenUsage,
+  ReasoningStep,
+  ThinkingTrace,
+  ToolDefinition,
+  ToolCallResponse,
+} from "./providers";
+import { DEFAULT_RETRY_OPTIONS, getRetryDelayMs, isRetryableError, sleep, withRetry } from "./retry";
+import { acquireCapacity } from "./scheduler";
+import { fitToContext, describeContextFit, estimateMessagesTokens } from "./context";
+import { withCost } from "./pricing";
+
+export interface ProviderCapabilities {
+  streaming: boolean;
+  vision: boolean;
+  tools: boolean;
+}
+
+export interface ProviderAdapter {
+  kind: string;
+  capabilities: ProviderCapabilities;
+  call(
+    provider: ProviderConfig,
+    messages: MessageContent[],
+    signal?: AbortSignal,
+    onThinking?: (trace: ThinkingTrace) => void
+  ): Promise<{ content: string; usage: TokenUsage }>;
+  stream(
+    provider: ProviderConfig,
+    messages: MessageContent[],
+    onUsage?: (usage: TokenUsage) => void,
+    signal?: AbortSignal,
+    onThinking?: (trace: ThinkingTrace) => void
+  ): AsyncGenerator<string>;
+  // Required when capabilities.tools is set. Adapters that can stream a tool
+  // turn forward its text deltas to onChunk.
+  callWithTools?(
+    provider: ProviderConfig,
+    messages: MessageContent[],
+    tools: ToolDefinition[],
+    signal?: AbortSignal,
+    onChunk?: (chunk: string) => void
+  ): Promise<ToolCallResponse>;
+  // Vendors with an embeddings endpoint; used for semantic consensus.
+  embed?(
+    provider: ProviderConfig,
+    texts: string[],
+    signal?: AbortSignal
+  ): Promise<{ vectors: number[][]; usage: TokenUsage }>;
+}
+
+export class UnknownProviderError extends Error {
+  constructor(kind: string) {
+    super(`No provider adapter registered for "${kind}"`);
+    this.name = "UnknownProviderError";
+    Object.setPrototypeOf(this, UnknownProviderError.prototype);
+  }
+}
+
+const adapters = new Map<string, ProviderAdapter>();
+
+export function registerAdapter(adapter: ProviderAdapter): void {
+  adapters.set(adapter.kind, adapter);
+}
+
+export function listAdapters(): ProviderAdapter[] {
+  return Array.from(adapters.values());
+}
+
+// Built-in providers are keyed by their id; custom providers carry an explicit
+// kind or fall back to the generic OpenAI-compatible adapter.
+export function resolveProviderKind(provider: ProviderConfig): string {
+  if (provider.kind) return provider.kind;
+  return provider.isCustom ? "custom" : provider.id;
+}
+
+export function getAdapter(provider: ProviderConfig): ProviderAdapter {
+  const kind = resolveProviderKind(provider);
+  const adapter = adapters.get(kind);
+  if (!adapter) {
+    throw new UnknownProviderError(kind);
+  }
+  return adapter;
+}
+
+export function supportsTools(provider: ProviderConfig): boolean {
+  const adapter = adapters.get(resolveProviderKind(provider));
+  return !!adapter?.capabilities.tools && !!adapter.callWithTools;
+}
+
+export function supportsEmbeddings(provider: ProviderConfig): boolean {
+  return !!adapters.get(resolveProviderKind(provider))?.embed;
+}
+
+export async function embedTexts(
+  provider: ProviderConfig,
+  texts: string[],
+  signal?: AbortSignal
+): Promise<{ vectors: number[][]; usage: TokenUsage }> {
+  const adapter = getAdapter(provider);
+  if (!adapter.embed) {
+    throw new Error(`${provider.name} does not offer embeddings`);
+  }
+  return adapter.embed(provider, texts, signal);
+}
+
+export interface ProviderCallOptions {
+  onReasoningStep?: (step: ReasoningStep) => void;
+  signal?: AbortSignal;
+  // Called with each streamed chunk by collectStream and callProviderWithTools
+  onChunk?: (chunk: string) => void;
+}
+
+// The configured provider followed by its fallback targets. A fallback on the
+// same provider id only swaps the model, so custom endpoints keep their
+// baseUrl and key. Any other id uses that pool entry's config (vendor,
+// endpoint, key, limits) when one was attached, and otherwise refers to a
+// built-in provider. Targets always run with the originating sampling.
+export function resolveFallbackChain(provider: ProviderConfig): ProviderConfig[] {
+  const chain = [provider];
+  for (const target of provider.fallbacks || []) {
+    if (target.id === provider.id) {
+      chain.push({ ...provider, model: target.model, fallbacks: undefined });
+    } else if (target.config) {
+      chain.push({
+        ...target.config,
+        name: target.name || target.config.name,
+        enabled: true,
+        model: target.model,
+        fallbacks: undefined,
+        sampling: provider.sampling,
+      });
+    } else {
+      chain.push({ id: target.id, name: target.name || target.id, enabled: true, model: target.model, sampling: provider.sampling });
+    }
+  }
+  return chain;
+}
+
+// Resolves fallback targets that name another expert against the settings
+// pool, so resolveFallbackChain can reach custom and multi-model entries.
+// Disabled entries still serve as fallbacks.
+export function attachFallbackConfigs(providers: ProviderConfig[], pool: ProviderConfig[]): ProviderConfig[] {
+  return providers.map(provider => {
+    if (!provider.fallbacks?.length) return provider;
+    return {
+      ...provider,
+      fallbacks: provider.fallbacks.map(target => {
+        const config = target.id === provider.id ? undefined : pool.find(p => p.id === target.id);
+        return config ? { ...target, config: { ...config, fallbacks: undefined } } : target;
+      }),
+    };
+  });
+}
+
+// The per-expert prompt prefix is prepended to the first system message (or
+// sent as one) so it reaches every provider regardless of wire format.
+export function applyPromptPrefix(provider: ProviderConfig, messages: MessageContent[]): MessageContent[] {
+  if (!provider.promptPrefix?.trim()) return messages;
+
+  const systemIndex = messages.findIndex(m => m.role === "system");
+  if (systemIndex === -1) {
+    return [{ role: "system", content: provider.promptPrefix }, ...messages];
+  }
+  return messages.map((m, i) =>
+    i === systemIndex ? { ...m, content: `${provider.promptPrefix}\n\n${m.content}` } : m
+  );
+}
+
+// Trims the conversation to the target model's context window before the
+// request is sent, reporting what was cut as a "context" reasoning step.
+function fitMessages(
+  target: ProviderConfig,
+  messages: MessageContent[],
+  options?: ProviderCallOptions
+): MessageContent[] {
+  const fit = fitToContext(target, messages);
+  if (fit.changed) {
+    console.warn(`[Context] ${describeContextFit(target, fit)}`);
+    options?.onReasoningStep?.({
+      provider: target.id,
+      model: target.model,
+      action: "context",
+      content: describeContextFit(target, fit),
+    });
+  }
+  return fit.messages;
+}
+
+function reportFallback(
+  from: ProviderConfig,
+  to: ProviderConfig,
+  err: any,
+  options?: ProviderCallOptions
+): void {
+  console.warn(`[Fallback] ${from.name} (${from.model}) failed: ${err.message}. Falling back to ${to.name} (${to.model})`);
+  options?.onReasoningStep?.({
+    provider: to.id,
+    model: to.model,
+    action: "fallback",
+    content: `${from.name} (${from.model}) failed: ${err.message}. Falling back to ${to.name} (${to.model}).`,
+  });
+}
+
+function reportThinking(
+  provider: ProviderConfig,
+  trace: ThinkingTrace,
+  options?: ProviderCallOptions
+): void {
+  const effort = provider.sampling?.reasoningEffort;
+  options?.onReasoningStep?.({
+    provider: provider.id,
+    model: provider.model,
+    action: "thinking",
+    content: trace.content.trim() ||
+      `Used ${trace.reasoningTokens.toLocaleString()} hidden reasoning tokens${effort ? ` (effort: ${effort})` : ""}.`,
+    tokenUsage: trace.reasoningTokens > 0 ? { inputTokens: 0, outputTokens: trace.reasoningTokens } : undefined,
+    // Reasoning tokens are already billed in the call's output usage
+    cost: 0,
+  });
+}
+
+function acquireFor(
+  target: ProviderConfig,
+  messages: MessageContent[],
+  options?: ProviderCallOptions
+): Promise<(usage?: TokenUsage) => void> {
+  // Two custom endpoints serving the same model name have separate limits
+  const endpoint = target.baseUrl?.trim().replace(/\/+$/, "") ?? "";
+  return acquireCapacity(
+    `${resolveProviderKind(target)}:${endpoint}:${target.model}`,
+    target.rateLimits,
+    estimateMessagesTokens(messages, target.model),
+    {
+      signal: options?.signal,
+      onWait: (reason) => options?.onReasoningStep?.({
+        provider: target.id,
+        model: target.model,
+        action: "waiting",
+        content: `Waiting for capacity on ${target.name} (${target.model}): ${reason}`,
+      }),
+    }
+  );
+}
+
+async function runScheduled<T extends { usage: TokenUsage }>(
+  target: ProviderConfig,
+  messages: MessageContent[],
+  options: ProviderCallOptions | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  const release = await acquireFor(target, messages, options);
+  let usage: TokenUsage | undefined;
+  try {
+    const result = await fn();
+    usage = withCost(target.model, result.usage);
+    return { ...result, usage };
+  } finally {
+    release(usage);
+  }
+}
+
+export async function callProvider(
+  provider: ProviderConfig,
+  messages: MessageContent[],
+  options?: ProviderCallOptions
+): Promise<{ content: string; usage: TokenUsage }> {
+  const chain = resolveFallbackChain(provider);
+  const prefixedMessages = applyPromptPrefix(provider, messages);
+  let lastError: any;
+
+  for (let i = 0; i < chain.length; i++) {
+    const target = chain[i];
+    const targetMessages = fitMessages(target, prefixedMessages, options);
+    try {
+      return await withRetry(
+        () => runScheduled(target, targetMessages, options, () =>
+          getAdapter(target).call(target, targetMessages, options?.signal, (trace) => reportThinking(target, trace, options))
+        ),
+        `${target.name} (${target.model})`,
+        undefined,
+        options?.signal
+      );
+    } catch (err: any) {
+      if (options?.signal?.aborted) throw err;
+      lastError = err;
+      if (i + 1 < chain.length) {
+        reportFallback(target, chain[i + 1], err, options);
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+// Fallback targets that cannot call tools are skipped, since the conversation
+// may already contain tool calls and results.
+export async function callProviderWithTools(
+  provider: ProviderConfig,
+  messages: MessageContent[],
+  tools: ToolDefinition[],
+  options?: ProviderCallOptions
+): Promise<ToolCallResponse> {
+  const chain = resolveFallbackChain(provider).filter(supportsTools);
+  if (chain.length === 0) {
+    throw new Error(`${provider.name} (${provider.model}) does not support tool calling`);
+  }
+  const prefixedMessages = applyPromptPrefix(provider, messages);
+  let lastError: any;
+
+  for (let i = 0; i < chain.length; i++) {
+    const target = chain[i];
+    const targetMessages = fitMessages(target, prefixedMessages, options);
+    try {
+      return await withRetry(
+        () => runScheduled(target, targetMessages, options, () =>
+          getAdapter(target).callWithTools!(target, targetMessages, tools, options?.signal, options?.onChunk)
+        ),
+        `${target.name} (${target.model})`,
+        undefined,
+        options?.signal
+      );
+    } catch (err: any) {
+      if (options?.signal?.aborted) throw err;
+      lastError = err;
+      if (i + 1 < chain.length) {
+        reportFallback(target, chain[i + 1], err, options);
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+// Streams can only be retried or handed to a fallback before the first chunk
+// has been yielded; after that the partial output is already with the caller.
+export async function* streamProvider(
+  provider: ProviderConfig,
+  messages: MessageContent[],
+  onUsage?: (usage: TokenUsage) => void,
+  options?: ProviderCallOptions
+): AsyncGenerator<string> {
+  const chain = resolveFallbackChain(provider);
+  const prefixedMessages = applyPromptPrefix(provider, messages);
+  let lastError: any;
+
+  for (let i = 0; i < chain.length; i++) {
+    const target = chain[i];
+    const adapter = getAdapter(target);
+    const targetMessages = fitMessages(target, prefixedMessages, options);
+
+    for (let attempt = 0; ; attempt++) {
+      let yielded = false;
+      let streamUsage: TokenUsage | undefined;
+      // Capacity is held for the whole stream but not across retry backoff.
+      const release = await acquireFor(target, targetMessages, options);
+      try {
+        const stream = adapter.stream(
+          target,
+          targetMessages,
+          (usage) => {
+            streamUsage = withCost(target.model, usage);
+            onUsage?.(streamUsage);
+          },
+          options?.signal,
+          (trace) => reportThinking(target, trace, options)
+        );
+        for await (const chunk of stream) {
+          yielded = true;
+          yield chunk;
+        }
+        return;
+      } catch (err: any) {
+        if (yielded || options?.signal?.aborted) throw err;
+        lastError = err;
+      } finally {
+        release(streamUsage);
+      }
+
+      if (attempt >= DEFAULT_RETRY_OPTIONS.maxRetries || !isRetryableError(lastError)) {
+        break;
+      }
+      const delay = getRetryDelayMs(lastError, attempt);
+      console.warn(`[Retry] ${target.name} (${target.model}) failed (${lastError.message}). Retrying in ${delay}ms (${attempt + 1}/${DEFAULT_RETRY_OPTIONS.maxRetries})`);
+      await sleep(delay, options?.signal);
+    }
+
+    if (i + 1 < chain.length) {
+      reportFallback(target, chain[i + 1], lastError, options);
+    }
+  }
+
+  throw lastError;
+}
+
+export async function collectStream(
+  provider: ProviderConfig,
+  messages: MessageContent[],
+  options?: ProviderCallOptions
+): Promise<{ content: string; usage: TokenUsage }> {
+  let content = "";
+  let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+  for await (const chunk of streamProvider(provider, messages, (u) => { usage = u; }, options)) {
+    content += chunk;
+    options?.onChunk?.(chunk);
+  }
+
+  return { content, usage };
+}
@@ -0,0 +1,100 @@
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+const RETRYABLE_NETWORK_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN", "UND_ERR_SOCKET"];
+
+export function getStatus(err: any): number | undefined {
+  const status = err?.status ?? err?.statusCode ?? err?.response?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+function getHeader(err: any, name: string): string | null {
+  const headers = err?.headers ?? err?.response?.headers;
+  if (!headers) return null;
+  if (typeof headers.get === "function") {
+    return headers.get(name);
+  }
+  return headers[name] ?? null;
+}
+
+export function isRetryableError(err: any): boolean {
+  const status = getStatus(err);
+  if (status !== undefined) {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  const code = err?.code ?? err?.cause?.code;
+  if (code && RETRYABLE_NETWORK_CODES.includes(code)) return true;
+  // SDK connection errors (APIConnectionError and friends) carry no status
+  return err?.name === "APIConnectionError" || err?.name === "APIConnectionTimeoutError";
+}
+
+// Honors Retry-After (seconds or HTTP date) and retry-after-ms when the
+// provider sends them, otherwise exponential backoff with full jitter.
+export function getRetryDelayMs(err: any, attempt: number, options: RetryOptions = DEFAULT_RETRY_OPTIONS): number {
+  const retryAfterMs = getHeader(err, "retry-after-ms");
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Math.min(Number(retryAfterMs), options.maxDelayMs);
+  }
+
+  const retryAfter = getHeader(err, "retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return Math.min(seconds * 1000, options.maxDelayMs);
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.min(Math.max(date - Date.now(), 0), options.maxDelayMs);
+    }
+  }
+
+  const exponential = Math.min(options.baseDelayMs * 2 ** attempt, options.maxDelayMs);
+  return Math.round(Math.random() * exponential);
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal!.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  label: string,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err: any) {
+      if (signal?.aborted || attempt >= options.maxRetries || !isRetryableError(err)) {
+        throw err;
+      }
+      const delay = getRetryDelayMs(err, attempt, options);
+      console.warn(`[Retry] ${label} failed (${err.message}). Retrying in ${delay}ms (${attempt + 1}/${options.maxRetries})`);
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { randomUUID } from "crypto";
+
+export interface ActiveRun {
+  id: string;
+  conversationId: string;
+  controller: AbortController;
+  startedAt: Date;
+}
+
+const activeRuns = new Map<string, ActiveRun>();
+
+export function startRun(conversationId: string): ActiveRun {
+  const run: ActiveRun = {
+    id: randomUUID(),
+    conversationId,
+    controller: new AbortController(),
+    startedAt: new Date(),
+  };
+  activeRuns.set(run.id, run);
+  return run;
+}
+
+export function cancelRun(runId: string, reason = "Cancelled by user"): boolean {
+  const run = activeRuns.get(runId);
+  if (!run) return false;
+  run.controller.abort(new Error(reason));
+  return true;
+}
+
+export function finishRun(runId: string): void {
+  activeRuns.delete(runId);
+}
@@ -0,0 +1,90 @@
+import { spawn } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+export interface ExecutionResult {
+  success: boolean;
+  output: string;
+}
+
+export const EXECUTION_TIMEOUT_MS = 10000;
+
+export async function executePython(code: string, signal?: AbortSignal): Promise<ExecutionResult> {
+  if (signal?.aborted) {
+    return { success: false, output: "Execution cancelled" };
+  }
+
+  return new Promise((resolve) => {
+    const tempDir = os.tmpdir();
+    const tempFile = path.join(tempDir, `poetiq_${Date.now()}_${Math.random().toString(36).slice(2)}.py`);
+    let resolved = false;
+    let timeoutId: NodeJS.Timeout | null = null;
+    let onAbort: (() => void) | null = null;
+
+    const cleanup = () => {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        timeoutId = null;
+      }
+      if (onAbort) {
+        signal?.removeEventListener("abort", onAbort);
+        onAbort = null;
+      }
+      try {
+        fs.unlinkSync(tempFile);
+      } catch (e) {}
+    };
+
+    const safeResolve = (result: ExecutionResult) => {
+      if (!resolved) {
+        resolved = true;
+        cleanup();
+        resolve(result);
+      }
+    };
+
+    try {
+      fs.writeFileSync(tempFile, code, "utf-8");
+
+      const pythonProcess = spawn("python3", [tempFile], { cwd: tempDir });
+
+      let stdout = "";
+      let stderr = "";
+
+      pythonProcess.stdout.on("data", (data) => {
+        stdout += data.toString();
+      });
+
+      pythonProcess.stderr.on("data", (data) => {
+        stderr += data.toString();
+      });
+
+      pythonProcess.on("close", (exitCode) => {
+        if (exitCode === 0) {
+          const output = stdout.trim() + (stderr.trim() ? `\n[stderr]: ${stderr.trim()}` : "");
+          safeResolve({ success: true, output: output || "Code executed successfully (no output)" });
+        } else {
+          safeResolve({ success: false, output: stderr.trim() || `Process exited with code ${exitCode}` });
+        }
+      });
+
+      pythonProcess.on("error", (err) => {
+        safeResolve({ success: false, output: `Failed to execute Python: ${err.message}` });
+      });
+
+      timeoutId = setTimeout(() => {
+        pythonProcess.kill();
+        safeResolve({ success: false, output: `Execution timed out (${EXECUTION_TIMEOUT_MS / 1000} second limit)` });
+      }, EXECUTION_TIMEOUT_MS);
+
+      onAbort = () => {
+        pythonProcess.kill();
+        safeResolve({ success: false, output: "Execution cancelled" });
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+    } catch (err: any) {
+      safeResolve({ success: false, output: `Error: ${err.message}` });
+    }
+  });
+}
@@ -0,0 +1,206 @@
+import type { RateLimits, TokenUsage } from "./providers";
+
+const WINDOW_MS = 60_000;
+
+// Continuously refilling bucket holding at most one minute's allowance.
+class TokenBucket {
+  private available: number;
+  private updatedAt = Date.now();
+
+  constructor(private capacity: number) {
+    this.available = capacity;
+  }
+
+  resize(capacity: number): void {
+    this.refill();
+    this.capacity = capacity;
+    this.available = Math.min(this.available, capacity);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + ((now - this.updatedAt) * this.capacity) / WINDOW_MS);
+    this.updatedAt = now;
+  }
+
+  // Requests larger than the whole bucket only wait for it to fill up, so
+  // they are throttled rather than blocked forever.
+  msUntil(amount: number): number {
+    this.refill();
+    const missing = Math.min(amount, this.capacity) - this.available;
+    return missing <= 0 ? 0 : Math.ceil((missing * WINDOW_MS) / this.capacity);
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.available -= amount;
+  }
+}
+
+interface Waiter {
+  cost: number;
+  resolve: () => void;
+  detach: () => void;
+}
+
+interface Blocked {
+  reason: string;
+  retryInMs?: number;
+}
+
+class ProviderQueue {
+  private limits: RateLimits = {};
+  private requests: TokenBucket | null = null;
+  private tokens: TokenBucket | null = null;
+  private active = 0;
+  private waiters: Waiter[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  configure(limits: RateLimits): void {
+    if (limits.requestsPerMinute !== this.limits.requestsPerMinute) {
+      this.requests = resizeBucket(this.requests, limits.requestsPerMinute);
+    }
+    if (limits.tokensPerMinute !== this.limits.tokensPerMinute) {
+      this.tokens = resizeBucket(this.tokens, limits.tokensPerMinute);
+    }
+    this.limits = { ...limits };
+    this.pump();
+  }
+
+  private blockedBy(cost: number): Blocked | null {
+    if (this.limits.maxConcurrent && this.active >= this.limits.maxConcurrent) {
+      return { reason: `${this.active}/${this.limits.maxConcurrent} concurrent requests in flight` };
+    }
+    const requestWait = this.requests?.msUntil(1) ?? 0;
+    if (requestWait > 0) {
+      return { reason: `${this.limits.requestsPerMinute} requests/min limit reached`, retryInMs: requestWait };
+    }
+    const tokenWait = this.tokens?.msUntil(cost) ?? 0;
+    if (tokenWait > 0) {
+      return { reason: `${this.limits.tokensPerMinute?.toLocaleString()} tokens/min limit reached`, retryInMs: tokenWait };
+    }
+    return null;
+  }
+
+  private grant(cost: number): void {
+    this.active++;
+    this.requests?.take(1);
+    this.tokens?.take(cost);
+  }
+
+  // Resolves once the request may start. Callers queue in FIFO order so a
+  // large request is not starved by a stream of small ones.
+  acquire(cost: number, signal?: AbortSignal, onWait?: (reason: string) => void): Promise<void> {
+    signal?.throwIfAborted();
+
+    const blocked = this.waiters.length > 0 ? { reason: `${this.waiters.length} request(s) queued ahead` } : this.blockedBy(cost);
+    if (!blocked) {
+      this.grant(cost);
+      return Promise.resolve();
+    }
+
+    onWait?.(blocked.reason);
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters = this.waiters.filter(w => w !== waiter);
+        reject(signal?.reason);
+        this.pump();
+      };
+      const waiter: Waiter = {
+        cost,
+        resolve,
+        detach: () => signal?.removeEventListener("abort", onAbort),
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiters.push(waiter);
+      this.pump();
+    });
+  }
+
+  // Charges whatever the estimate missed (typically the output tokens) once
+  // the real usage is known.
+  release(estimatedTokens: number, usage?: TokenUsage): void {
+    this.active = Math.max(0, this.active - 1);
+    if (usage && this.tokens) {
+      const extra = usage.inputTokens + usage.outputTokens - estimatedTokens;
+      if (extra > 0) this.tokens.take(extra);
+    }
+    this.pump();
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.waiters.length > 0) {
+      const head = this.waiters[0];
+      const blocked = this.blockedBy(head.cost);
+      if (blocked) {
+        // Concurrency waits are woken by release(); bucket waits by a timer
+        if (blocked.retryInMs) {
+          this.timer = setTimeout(() => this.pump(), blocked.retryInMs);
+          this.timer.unref();
+        }
+        return;
+      }
+      this.waiters.shift();
+      head.detach();
+      this.grant(head.cost);
+      head.resolve();
+    }
+  }
+}
+
+function resizeBucket(bucket: TokenBucket | null, capacity: number | undefined): TokenBucket | null {
+  if (!capacity || capacity <= 0) return null;
+  if (!bucket) return new TokenBucket(capacity);
+  bucket.resize(capacity);
+  return bucket;
+}
+
+export function hasRateLimits(limits?: RateLimits): boolean {
+  return !!(limits && (limits.requestsPerMinute || limits.tokensPerMinute || limits.maxConcurrent));
+}
+
+const queues = new Map<string, ProviderQueue>();
+
+export interface AcquireOptions {
+  signal?: AbortSignal;
+  onWait?: (reason: string) => void;
+}
+
+// Waits for capacity under `key` (provider kind, endpoint and model) and
+// returns the release callback, which must be called exactly once when the
+// request ends.
+// The most recently configured limits for a key win; configs without any
+// (e.g. fallback targets) leave them unchanged.
+export async function acquireCapacity(
+  key: string,
+  limits: RateLimits | undefined,
+  estimatedTokens: number,
+  options: AcquireOptions = {}
+): Promise<(usage?: TokenUsage) => void> {
+  if (!hasRateLimits(limits) && !queues.has(key)) {
+    return () => {};
+  }
+
+  let queue = queues.get(key);
+  if (!queue) {
+    queue = new ProviderQueue();
+    queues.set(key, queue);
+  }
+  if (limits) {
+    queue.configure(limits);
+  }
+
+  await queue.acquire(estimatedTokens, options.signal, options.onWait);
+
+  let released = false;
+  return (usage?: TokenUsage) => {
+    if (released) return;
+    released = true;
+    queue!.release(estimatedTokens, usage);
+  };
+}
@@ -0,0 +1,153 @@
+import type { ProviderConfig } from "./providers";
+import { embedTexts } from "./registry";
+import { withTimeout } from "./timeouts";
+
+export type SimilarityBackendName = "tfidf" | "embeddings";
+
+// Clustering thresholds keyed by backend, since their score distributions differ
+export type SimilarityThresholds = Partial<Record<SimilarityBackendName, number>>;
+
+export interface SimilarityMatrix {
+  // Backend that actually produced the matrix (a fallback may stand in)
+  kind: SimilarityBackendName;
+  // Display name, including the embedding provider
+  backend: string;
+  // Symmetric, in [0, 1], ones on the diagonal
+  matrix: number[][];
+  // Clustering threshold suited to this backend's score distribution
+  defaultThreshold: number;
+}
+
+// Pairwise similarity for semantic consensus. The aggregator runs
+// synchronously, so backends that need the network fetch their vectors in
+// prepare() beforehand.
+export interface SimilarityBackend {
+  readonly name: SimilarityBackendName;
+  prepare?(texts: string[], signal?: AbortSignal): Promise<void>;
+  similarityMatrix(texts: string[]): SimilarityMatrix;
+}
+
+type SparseVector = Map<string, number>;
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function sparseCosine(a: SparseVector, b: SparseVector): number {
+  let dot = 0, normA = 0, normB = 0;
+  a.forEach((weight, term) => {
+    normA += weight * weight;
+    dot += weight * (b.get(term) ?? 0);
+  });
+  b.forEach(weight => { normB += weight * weight; });
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function buildMatrix<T>(vectors: T[], similarity: (a: T, b: T) => number): number[][] {
+  const matrix = vectors.map(() => vectors.map(() => 1));
+  for (let i = 0; i < vectors.length; i++) {
+    for (let j = i + 1; j < vectors.length; j++) {
+      const value = Math.min(Math.max(similarity(vectors[i], vectors[j]), 0), 1);
+      matrix[i][j] = value;
+      matrix[j][i] = value;
+    }
+  }
+  return matrix;
+}
+
+// TF-IDF over word shingles (single words by default; shingleSize 2 adds
+// word pairs), compared by cosine. Runs offline and is linear in the answer
+// length; IDF is computed over the answers being compared, so wording every
+// expert shares counts less.
+export class TfIdfSimilarity implements SimilarityBackend {
+  readonly name = "tfidf" as const;
+  private shingleSize: number;
+
+  constructor(shingleSize = 1) {
+    this.shingleSize = shingleSize;
+  }
+
+  similarityMatrix(texts: string[]): SimilarityMatrix {
+    const termCounts = texts.map(text => this.shingles(text));
+    const documentFrequency = new Map<string, number>();
+    for (const counts of termCounts) {
+      counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+    }
+
+    const vectors = termCounts.map(counts => {
+      const vector: SparseVector = new Map();
+      counts.forEach((count, term) => {
+        const idf = Math.log((1 + texts.length) / (1 + documentFrequency.get(term)!)) + 1;
+        vector.set(term, (1 + Math.log(count)) * idf);
+      });
+      return vector;
+    });
+
+    return { kind: this.name, backend: this.name, matrix: buildMatrix(vectors, sparseCosine), defaultThreshold: 0.4 };
+  }
+
+  private shingles(text: string): Map<string, number> {
+    const words = text.toLowerCase().match(/\d+(?:\.\d+)?|[a-z_\u00c0-\uffff]+/g) ?? [];
+    const counts = new Map<string, number>();
+    for (let size = 1; size <= this.shingleSize; size++) {
+      for (let i = 0; i + size <= words.length; i++) {
+        const term = words.slice(i, i + size).join(" ");
+        counts.set(term, (counts.get(term) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }
+}
+
+const EMBEDDING_TIMEOUT_SECONDS = 30;
+// Keeps long answers inside embedding models' input limits
+const MAX_EMBEDDING_CHARS = 8000;
+
+// Cosine over provider embeddings. prepare() embeds texts it has not seen;
+// if any text lacks a vector (the provider failed or prepare was skipped),
+// the whole matrix comes from the fallback so scores stay comparable.
+export class EmbeddingSimilarity implements SimilarityBackend {
+  readonly name = "embeddings" as const;
+  private provider: ProviderConfig;
+  private fallback: SimilarityBackend;
+  private vectors = new Map<string, number[]>();
+  private failed = false;
+
+  constructor(provider: ProviderConfig, fallback: SimilarityBackend = new TfIdfSimilarity()) {
+    this.provider = provider;
+    this.fallback = fallback;
+  }
+
+  async prepare(texts: string[], signal?: AbortSignal): Promise<void> {
+    const missing = Array.from(new Set(texts.filter(text => !this.vectors.has(text))));
+    if (this.failed || missing.length === 0) return;
+
+    try {
+      const { vectors } = await withTimeout(signal, "attempt", EMBEDDING_TIMEOUT_SECONDS, (embedSignal) =>
+        embedTexts(this.provider, missing.map(text => text.slice(0, MAX_EMBEDDING_CHARS)), embedSignal)
+      );
+      missing.forEach((text, i) => {
+        if (vectors[i]) this.vectors.set(text, vectors[i]);
+      });
+    } catch (error: any) {
+      if (signal?.aborted) return;
+      // One failure is enough to stop asking for the rest of this run
+      this.failed = true;
+      console.warn(`Embeddings from ${this.provider.name} unavailable, using ${this.fallback.name}: ${error.message}`);
+    }
+  }
+
+  similarityMatrix(texts: string[]): SimilarityMatrix {
+    if (this.failed || !texts.every(text => this.vectors.has(text))) {
+      return this.fallback.similarityMatrix(texts);
+    }
+    const vectors = texts.map(text => this.vectors.get(text)!);
+    return { kind: this.name, backend: `${this.name}:${this.provider.name}`, matrix: buildMatrix(vectors, cosine), defaultThreshold: 0.85 };
+  }
+}
@@ -0,0 +1,62 @@
+import type { MessageContent } from "./providers";
+import type { ConsensusResult, ExpertResult } from "./types";
+
+const SYNTHESIS_PROMPT = `You are a synthesizer. You will be shown a task and the answers several expert models gave to it, grouped by which answers agree.
+
+Write one answer to the task that combines the strongest parts of all of them:
+1. Prefer claims supported by several experts, but keep correct points that only one expert made
+2. Attribute claims to the experts that made them, in square brackets, e.g. [GPT-4o, Claude]
+3. Where experts disagree, say so explicitly: state each position with its experts and which one you consider right and why
+4. Do not add claims that no expert made unless you flag them as your own
+
+Reply with the merged answer only. End with a "Disagreements" section, or "Disagreements: none" if the experts agree.`;
+
+// Identical answers within a group are listed once with every expert that gave them.
+function distinctAnswers(responses: ExpertResult[]): { response: string; experts: string[] }[] {
+  const byAnswer = new Map<string, { response: string; experts: string[] }>();
+  for (const result of responses) {
+    const entry = byAnswer.get(result.canonicalAnswer);
+    if (entry) entry.experts.push(result.providerName);
+    else byAnswer.set(result.canonicalAnswer, { response: result.response, experts: [result.providerName] });
+  }
+  return Array.from(byAnswer.values());
+}
+
+export function countDistinctAnswers(consensus: ConsensusResult): number {
+  return consensus.allGroups.reduce((n, group) => n + distinctAnswers(group.responses).length, 0);
+}
+
+export function buildSynthesisMessages(task: MessageContent[], consensus: ConsensusResult): MessageContent[] {
+  const sections = consensus.allGroups.map((group, i) => {
+    const voters = group.responses.map(r => r.providerName).join(", ");
+    const answers = distinctAnswers(group.responses)
+      .map(answer => `### ${answer.experts.join(", ")}\n\n${answer.response}`)
+      .join("\n\n");
+    return `## Group ${i + 1}: ${group.voteCount} of ${consensus.totalExperts} experts (${voters})\n\n${answers}`;
+  });
+  return [
+    { role: "system", content: SYNTHESIS_PROMPT },
+    ...task,
+    { role: "user", content: `Expert answers to synthesize:\n\n${sections.join("\n\n")}` },
+  ];
+}
+
+export function applySynthesis(
+  consensus: ConsensusResult,
+  synthesized: string,
+  synthesizer: { id: string; name: string; model: string }
+): ConsensusResult {
+  const experts = consensus.allGroups.reduce((n, group) => n + group.responses.length, 0);
+  return {
+    ...consensus,
+    strategy: "synthesize",
+    winningAnswer: synthesized.trim(),
+    summary: `${synthesizer.name} merged ${experts} answers from ${consensus.allGroups.length} group(s). ` +
+      `Largest group: ${consensus.winningGroup.voteCount}/${consensus.totalExperts} experts.`,
+    synthesis: {
+      synthesizerId: synthesizer.id,
+      synthesizerName: synthesizer.name,
+      model: synthesizer.model,
+    },
+  };
+}
@@ -1,4 +1,4 @@
-import type { TaskType, ConsensusMode } from "./types";
+import type { TaskType, ConsensusMode, ConsensusStrategy } from "./types";
 import type { MessageContent } from "./providers";
 
 const STRUCTURED_KEYWORDS = [
@@ -60,9 +60,11 @@ export class TaskRouter {
     return isShort && hasQuestionMark ? "structured" : "open_ended";
   }
 
-  selectConsensusStrategy(taskType: TaskType, mode: ConsensusMode): "exact" | "semantic" {
+  selectConsensusStrategy(taskType: TaskType, mode: ConsensusMode): ConsensusStrategy {
     if (mode === "exact") return "exact";
     if (mode === "semantic") return "semantic";
+    if (mode === "judge") return "judge";
+    if (mode === "synthesize") return "synthesize";
 
     return taskType === "structured" ? "exact" : "semantic";
   }
@@ -0,0 +1,119 @@
+import type { ExpertTimeouts, ProviderConfig } from "./providers";
+
+export const DEFAULT_EXPERT_TIMEOUTS: Required<ExpertTimeouts> = {
+  attemptSeconds: 300,
+  expertSeconds: 900,
+  stallSeconds: 90,
+};
+
+export type TimeoutScope = "attempt" | "expert" | "stall";
+
+export class ExpertTimeoutError extends Error {
+  scope: TimeoutScope;
+  seconds: number;
+
+  constructor(scope: TimeoutScope, seconds: number) {
+    super(scope === "stall"
+      ? `Timeout: no tokens received for ${seconds}s`
+      : `Timeout: ${scope} took longer than ${seconds}s`);
+    this.name = "ExpertTimeoutError";
+    this.scope = scope;
+    this.seconds = seconds;
+  }
+}
+
+export function resolveTimeouts(provider: ProviderConfig): Required<ExpertTimeouts> {
+  return { ...DEFAULT_EXPERT_TIMEOUTS, ...stripUnset(provider.timeouts) };
+}
+
+function stripUnset(timeouts: ExpertTimeouts | undefined): ExpertTimeouts {
+  const result: ExpertTimeouts = {};
+  for (const [key, value] of Object.entries(timeouts ?? {})) {
+    if (typeof value === "number" && Number.isFinite(value) && value >= 0) {
+      result[key as keyof ExpertTimeouts] = value;
+    }
+  }
+  return result;
+}
+
+export function isTimeout(error: unknown): error is ExpertTimeoutError {
+  return error instanceof ExpertTimeoutError;
+}
+
+// Aborts its signal with an ExpertTimeoutError when the deadline passes or
+// when touch() is not called for stallSeconds, counting from the start, so a
+// call that never sends its first chunk stalls too. The parent signal's
+// aborts pass straight through. Callers must clear() it when the guarded work
+// ends.
+export class Watchdog {
+  readonly signal: AbortSignal;
+  private controller = new AbortController();
+  private deadline?: ReturnType<typeof setTimeout>;
+  private stall?: ReturnType<typeof setTimeout>;
+  private stallSeconds: number;
+
+  constructor(parent: AbortSignal | undefined, scope: TimeoutScope, seconds: number, stallSeconds = 0) {
+    this.signal = parent ? AbortSignal.any([parent, this.controller.signal]) : this.controller.signal;
+    this.stallSeconds = stallSeconds;
+    if (seconds > 0) {
+      this.deadline = setTimeout(() => this.fire(new ExpertTimeoutError(scope, seconds)), seconds * 1000);
+    }
+    this.touch();
+  }
+
+  touch(): void {
+    if (this.stallSeconds <= 0 || this.controller.signal.aborted) return;
+    clearTimeout(this.stall);
+    this.stall = setTimeout(() => this.fire(new ExpertTimeoutError("stall", this.stallSeconds)), this.stallSeconds * 1000);
+  }
+
+  clear(): void {
+    clearTimeout(this.deadline);
+    clearTimeout(this.stall);
+  }
+
+  private fire(error: ExpertTimeoutError): void {
+    this.clear();
+    this.controller.abort(error);
+  }
+}
+
+function rejectOnAbort(signal: AbortSignal): { promise: Promise<never>; detach: () => void } {
+  let onAbort = () => {};
+  const promise = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    if (signal.aborted) onAbort();
+    else signal.addEventListener("abort", onAbort, { once: true });
+  });
+  return { promise, detach: () => signal.removeEventListener("abort", onAbort) };
+}
+
+// Runs `task` under a deadline (and optional stall limit, fed by the touch
+// callback). The task is raced against the abort, so a stream that ignores
+// its signal still cannot hold the caller past the limit; a timeout rejects
+// with ExpertTimeoutError.
+export async function withTimeout<T>(
+  parent: AbortSignal | undefined,
+  scope: TimeoutScope,
+  seconds: number,
+  task: (signal: AbortSignal | undefined, touch: () => void) => Promise<T>,
+  stallSeconds = 0
+): Promise<T> {
+  if (seconds <= 0 && stallSeconds <= 0) {
+    return task(parent, () => {});
+  }
+
+  const watchdog = new Watchdog(parent, scope, seconds, stallSeconds);
+  const aborted = rejectOnAbort(watchdog.signal);
+  const running = task(watchdog.signal, () => watchdog.touch());
+  // An abandoned task may still reject after the race is lost
+  running.catch(() => {});
+  try {
+    return await Promise.race([running, aborted.promise]);
+  } catch (error) {
+    throw isTimeout(watchdog.signal.reason) ? watchdog.signal.reason : error;
+  } finally {
+    watchdog.clear();
+    aborted.detach();
+  }
+}
@@ -0,0 +1,60 @@
+import type { ToolCall, ToolDefinition } from "./providers";
+import { executePython, type ExecutionResult } from "./sandbox";
+
+export interface Tool {
+  definition: ToolDefinition;
+  // Model the executor reports under in reasoning steps
+  label: string;
+  execute(args: Record<string, any>, signal?: AbortSignal): Promise<ExecutionResult>;
+}
+
+const tools = new Map<string, Tool>();
+
+export function registerTool(tool: Tool): void {
+  tools.set(tool.definition.name, tool);
+}
+
+export function getTool(name: string): Tool | undefined {
+  return tools.get(name);
+}
+
+export function listTools(): Tool[] {
+  return Array.from(tools.values());
+}
+
+// Unknown tools and bad arguments are reported back to the model as failed
+// results rather than thrown, so it can correct itself on the next turn.
+export async function executeToolCall(call: ToolCall, signal?: AbortSignal): Promise<ExecutionResult> {
+  const tool = tools.get(call.name);
+  if (!tool) {
+    return { success: false, output: `Unknown tool "${call.name}". Available tools: ${listTools().map(t => t.definition.name).join(", ")}` };
+  }
+  try {
+    return await tool.execute(call.arguments, signal);
+  } catch (err: any) {
+    return { success: false, output: `Tool ${call.name} failed: ${err.message}` };
+  }
+}
+
+export const pythonTool: Tool = {
+  definition: {
+    name: "run_python",
+    description: "Execute a self-contained Python 3 script and return its stdout. Use print() to output results. Runs with a 10 second time limit.",
+    parameters: {
+      type: "object",
+      properties: {
+        code: { type: "string", description: "The complete Python script to run" },
+      },
+      required: ["code"],
+    },
+  },
+  label: "python-sandbox",
+  execute: async (args, signal) => {
+    if (typeof args.code !== "string" || !args.code.trim()) {
+      return { success: false, output: "Missing required argument: code" };
+    }
+    return executePython(args.code, signal);
+  },
+};
+
+registerTool(pythonTool);
@@ -1,13 +1,37 @@
 import type { TokenUsage, ProviderConfig } from "./providers";
+import type { SimilarityBackendName, SimilarityThresholds } from "./similarity";
 
 export type TaskType = "structured" | "open_ended";
 
-export type ConsensusMode = "auto" | "exact" | "semantic";
+export type ConsensusMode = "auto" | "exact" | "semantic" | "judge" | "synthesize";
+
+export type ConsensusStrategy = "exact" | "semantic" | "judge" | "synthesize";
+
+export interface OrchestratorOptions {
+  // Share of experts that must agree before the rest are cut short; unset
+  // means a strict majority.
+  quorum?: number | null;
+  // Propose → critique → refine rounds for multi-model runs; 0 uses consensus
+  refinementRounds?: number;
+  // Compute slider (0-100%) that scales orchestration depth; see compute.ts
+  computeBudget?: number;
+  // Provider that judges ("judge" mode) or merges ("synthesize" mode) the
+  // experts' answers; unset or unavailable falls back to the first expert
+  judgeProviderId?: string | null;
+  // Semantic similarity backend; unset uses local TF-IDF. Embeddings are
+  // opt-in because they are extra provider calls outside the spending caps.
+  similarityBackend?: SimilarityBackendName;
+  // Semantic clustering threshold in [0, 1] per backend; a missing entry
+  // uses that backend's default
+  similarityThresholds?: SimilarityThresholds;
+}
 
 export interface ExpertConfig extends ProviderConfig {
-  temperature?: number;
   maxRetries?: number;
-  promptPrefix?: string;
+  // Agent-loop turns when the provider supports tool calling
+  maxTurns?: number;
+  // 1-based index when the expert runs several self-consistency samples
+  sample?: number;
 }
 
 export interface ExpertResult {
@@ -21,6 +45,22 @@ export interface ExpertResult {
   usage: TokenUsage;
   executionOutput?: string;
   error?: string;
+  // Set when the expert failed because it hit a time limit
+  timedOut?: boolean;
+  sample?: number;
+}
+
+// How one expert's self-consistency samples voted.
+export interface ExpertAgreement {
+  providerId: string;
+  providerName: string;
+  samples: number;
+  // Samples that produced a verified answer and entered consensus
+  voted: number;
+  // Share of voting samples in the winning group
+  consensusRate: number;
+  // Share of voting samples in the expert's own largest group
+  selfAgreement: number;
 }
 
 export interface ConsensusGroup {
@@ -28,10 +68,29 @@ export interface ConsensusGroup {
   responses: ExpertResult[];
   voteCount: number;
   averageSuccess: number;
+  // Semantic clusters: the member most similar to the rest of its cluster
+  centroid?: ClusterCentroid;
+}
+
+export interface ClusterCentroid {
+  providerId: string;
+  providerName: string;
+  sample?: number;
+  // Mean similarity of the centroid to the other members; 1 for singletons
+  cohesion: number;
+}
+
+// Pairwise similarity behind a semantic clustering; matrix rows and columns
+// follow `experts`.
+export interface SimilarityReport {
+  backend: string;
+  threshold: number;
+  experts: string[];
+  matrix: number[][];
 }
 
 export interface ConsensusResult {
-  strategy: "exact" | "semantic";
+  strategy: ConsensusStrategy;
   taskType: TaskType;
   winningAnswer: string;
   winningGroup: ConsensusGroup;
@@ -39,6 +98,21 @@ export interface ConsensusResult {
   totalExperts: number;
   agreement: number;
   summary: string;
+  // Set when a judge model picked the winner
+  judgement?: JudgeVerdict;
+  // Set by the semantic aggregator
+  similarity?: SimilarityReport;
+  // Set when winningAnswer was written by a synthesizer model
+  synthesis?: { synthesizerId: string; synthesizerName: string; model: string };
+}
+
+export interface JudgeVerdict {
+  judgeId: string;
+  judgeName: string;
+  model: string;
+  scores: { candidate: string; providerNames: string[]; score: number | null }[];
+  best: string;
+  rationale: string;
 }
 
 export interface ExpertStreamEvent {
@@ -46,7 +120,13 @@ export interface ExpertStreamEvent {
   providerId?: string;
   providerName?: string;
   model?: string;
+  // Status line for lifecycle events
   content?: string;
+  // Set when the expert runs several samples; lanes are per sample
+  sample?: number;
+  // expert_progress: text streamed since the previous event, within `attempt`
+  delta?: string;
+  attempt?: number;
   result?: ExpertResult;
   consensus?: ConsensusResult;
 }
@@ -68,4 +148,5 @@ export interface QuantPipelineResult {
     score: number;
   };
   error?: string;
+  timedOut?: boolean;
 }
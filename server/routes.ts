@@ -2,17 +2,27 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import sharp from "sharp";
-import { storage } from "./storage";
-import { insertConversationSchema, insertMessageSchema, insertSettingsSchema } from "@shared/schema";
+import { storage, startOfUtcDay } from "./storage";
+import { insertConversationSchema, insertMessageSchema, insertSettingsSchema, type Message, type Settings } from "@shared/schema";
 import { PoetiqOrchestrator } from "./llm/orchestrator";
+import { attachFallbackConfigs } from "./llm/adapters";
+import { listLocalModels } from "./llm/local";
+import { assertAllowedEndpoint, EndpointNotAllowedError } from "./llm/endpoints";
+import { testProvider, recordHealth, getProviderHealth, HEALTH_MIN_REFRESH_MS } from "./llm/health";
+import { startRun, cancelRun, finishRun, type ActiveRun } from "./llm/runs";
+import { MODEL_CATALOG, addUsage, stepCost } from "./llm/pricing";
+import { CostBudget, scaleRequestLimit, type BudgetExceeded, type SpendingLimits } from "./llm/budget";
 import type { ProviderConfig, TokenUsage } from "./llm/providers";
+import type { ConsensusMode, OrchestratorOptions } from "./llm/types";
+import type { SimilarityThresholds } from "./llm/similarity";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
+import { encryptProviderSecrets, decryptProviderSecrets } from "./secrets";
 
 async function mergeProviderApiKeys(requestProviders: ProviderConfig[]): Promise<ProviderConfig[]> {
   const settings = await storage.getSettings();
-  const storedProviders = (settings?.providers as ProviderConfig[]) || [];
+  const storedProviders = decryptProviderSecrets((settings?.providers as ProviderConfig[]) || []);
   
-  return requestProviders.map(reqProvider => {
+  const merged = requestProviders.map(reqProvider => {
     if (reqProvider.isCustom && reqProvider.apiKey === "••••••••") {
       const stored = storedProviders.find(p => p.id === reqProvider.id);
       if (stored?.apiKey) {
@@ -21,6 +31,59 @@ async function mergeProviderApiKeys(requestProviders: ProviderConfig[]): Promise
     }
     return reqProvider;
   });
+
+  // Fallbacks may name experts the request left out, so the stored pool fills in
+  const pool = [...merged, ...storedProviders.filter(p => !merged.some(m => m.id === p.id))];
+  return attachFallbackConfigs(merged, pool);
+}
+
+// Spend already recorded for the conversation and since UTC midnight counts
+// against the conversation and daily caps.
+async function createRequestBudget(
+  settings: Settings | undefined,
+  conversationId: string,
+  computeBudget: number | undefined,
+  onExceeded: (info: BudgetExceeded) => void
+): Promise<CostBudget> {
+  const limits = scaleRequestLimit((settings?.spendingLimits as SpendingLimits | null) || {}, computeBudget);
+  const [conversationCost, dayCost] = await Promise.all([
+    limits.perConversation !== undefined ? storage.getConversationCost(conversationId) : null,
+    limits.perDay !== undefined ? storage.getCostSince(startOfUtcDay()) : null,
+  ]);
+  return new CostBudget(limits, { conversation: conversationCost?.cost, day: dayCost?.cost }, onExceeded);
+}
+
+// Title and summary calls follow the answer, so their usage is added to the
+// answer's message afterwards for the cost totals in storage.ts.
+async function recordBackgroundUsage(message: Message, usage: TokenUsage): Promise<void> {
+  if (usage.inputTokens === 0 && usage.outputTokens === 0) return;
+  await storage.updateMessage(message.id, {
+    metadata: { ...(message.metadata as Record<string, unknown> | null), backgroundUsage: usage },
+  });
+}
+
+// Provider probes are paid calls outside any conversation; recording them
+// lets the daily totals and cap see them.
+function recordProbeUsage(source: string, provider: ProviderConfig, usage: TokenUsage): void {
+  storage.recordBackgroundUsage({
+    source,
+    providerId: provider.id,
+    model: provider.model,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cost: usage.cost ?? 0,
+  }).catch(error => console.error("Error recording probe usage:", error));
+}
+
+function orchestratorOptions(settings: Settings | undefined, computeBudget: unknown): OrchestratorOptions {
+  return {
+    quorum: settings?.consensusQuorum ?? null,
+    refinementRounds: settings?.refinementRounds ?? 0,
+    judgeProviderId: settings?.judgeProviderId ?? null,
+    similarityBackend: settings?.similarityBackend === "embeddings" ? "embeddings" : "tfidf",
+    similarityThresholds: (settings?.similarityThresholds as SimilarityThresholds | null) ?? undefined,
+    computeBudget: typeof computeBudget === "number" ? computeBudget : undefined,
+  };
 }
 
 const MAX_IMAGE_DIMENSION = 2048;
@@ -115,6 +178,35 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/conversations/:id/cost", async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      const totals = await storage.getConversationCost(req.params.id);
+      res.json(totals);
+    } catch (error) {
+      console.error("Error fetching conversation cost:", error);
+      res.status(500).json({ error: "Failed to fetch conversation cost" });
+    }
+  });
+
+  app.get("/api/costs/daily", async (req, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+      const costs = await storage.getDailyCosts(days);
+      res.json(costs);
+    } catch (error) {
+      console.error("Error fetching daily costs:", error);
+      res.status(500).json({ error: "Failed to fetch daily costs" });
+    }
+  });
+
+  app.get("/api/models/pricing", (_req, res) => {
+    res.json(MODEL_CATALOG);
+  });
+
   app.post("/api/conversations", async (req, res) => {
     try {
       const data = insertConversationSchema.parse(req.body);
@@ -155,9 +247,10 @@ export async function registerRoutes(
 
   app.post("/api/conversations/:id/solve", async (req, res) => {
     const SLIDING_WINDOW_SIZE = 10;
+    let run: ActiveRun | null = null;
     
     try {
-      const { message, providers, attachments } = req.body;
+      const { message, providers, attachments, computeBudget } = req.body;
       
       if (!message || !providers) {
         return res.status(400).json({ error: "Message and providers required" });
@@ -167,6 +260,17 @@ export async function registerRoutes(
       res.setHeader("Cache-Control", "no-cache");
       res.setHeader("Connection", "keep-alive");
 
+      // Abort every expert, sandbox and follow-up job if the browser goes away
+      const activeRun = startRun(req.params.id);
+      run = activeRun;
+      const signal = activeRun.controller.signal;
+      res.on("close", () => {
+        if (!res.writableEnded) {
+          cancelRun(activeRun.id, "Client disconnected");
+        }
+      });
+      res.write(`data: ${JSON.stringify({ type: "run_started", runId: activeRun.id })}\n\n`);
+
       const userMessage = await storage.createMessage({
         conversationId: req.params.id,
         role: "user",
@@ -212,32 +316,66 @@ export async function registerRoutes(
       }
 
       const settings = await storage.getSettings();
-      const consensusMode = (settings?.consensusMode as "auto" | "exact" | "semantic") || "auto";
+      const consensusMode = (settings?.consensusMode as ConsensusMode) || "auto";
+      
+      let budgetExceeded: BudgetExceeded | null = null;
+      const budget = await createRequestBudget(settings, req.params.id, computeBudget, (info) => {
+        budgetExceeded = info;
+        res.write(`data: ${JSON.stringify({ type: "budget_exceeded", budget: info })}\n\n`);
+      });
       
       const mergedProviders = await mergeProviderApiKeys(providers as ProviderConfig[]);
-      const orchestrator = new PoetiqOrchestrator(mergedProviders, consensusMode);
+      const orchestrator = new PoetiqOrchestrator(mergedProviders, consensusMode, budget, orchestratorOptions(settings, computeBudget));
       let fullResponse = "";
       let stepNumber = 0;
-      const pendingSteps: Array<{ provider: string; model: string; action: string; content: string; stepNumber: number; tokenUsage?: { inputTokens: number; outputTokens: number } }> = [];
+      const pendingSteps: Array<{ provider: string; model: string; action: string; content: string; stepNumber: number; tokenUsage?: TokenUsage; cost?: number }> = [];
       let tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
       
-      for await (const chunk of orchestrator.solveTask(
-        conversationHistory.length > 0 ? conversationHistory : message,
-        (step) => {
-          stepNumber++;
-          const stepData = { ...step, stepNumber };
-          pendingSteps.push(stepData);
-          res.write(`data: ${JSON.stringify({ 
-            type: "reasoning_step", 
-            step: stepData 
-          })}\n\n`);
-        },
-        (usage) => {
-          tokenUsage = usage;
+      try {
+        for await (const chunk of orchestrator.solveTask(
+          conversationHistory.length > 0 ? conversationHistory : message,
+          (step) => {
+            stepNumber++;
+            const stepData = { ...step, cost: stepCost(step), stepNumber };
+            pendingSteps.push(stepData);
+            res.write(`data: ${JSON.stringify({ 
+              type: "reasoning_step", 
+              step: stepData 
+            })}\n\n`);
+          },
+          (usage) => {
+            tokenUsage = usage;
+          },
+          signal,
+          (event) => {
+            res.write(`data: ${JSON.stringify({ type: "expert_event", event })}\n\n`);
+          }
+        )) {
+          fullResponse += chunk;
+          res.write(`data: ${JSON.stringify({ type: "content", content: chunk })}\n\n`);
+        }
+      } catch (error) {
+        if (!signal.aborted) throw error;
+      }
+
+      const cancelled = signal.aborted;
+      if (cancelled) {
+        // The orchestrator reports usage when it finishes, which a cancelled
+        // run may not reach; the budget has every call that completed
+        const completedUsage = budget.totalUsage;
+        if (completedUsage.inputTokens + completedUsage.outputTokens > tokenUsage.inputTokens + tokenUsage.outputTokens) {
+          tokenUsage = completedUsage;
         }
-      )) {
-        fullResponse += chunk;
-        res.write(`data: ${JSON.stringify({ type: "content", content: chunk })}\n\n`);
+        stepNumber++;
+        const cancelStep = {
+          provider: "orchestrator",
+          model: "run-control",
+          action: "cancelled",
+          content: `Run cancelled: ${(signal.reason as Error)?.message || "Cancelled"}. Partial output saved.`,
+          stepNumber
+        };
+        pendingSteps.push(cancelStep);
+        res.write(`data: ${JSON.stringify({ type: "reasoning_step", step: cancelStep })}\n\n`);
       }
 
       const { review, enhancedResponse } = parsePoetiqResponse(fullResponse);
@@ -263,10 +401,12 @@ export async function registerRoutes(
       const assistantMessage = await storage.createMessage({
         conversationId: req.params.id,
         role: "assistant",
-        content: enhancedResponse,
+        content: cancelled ? `${enhancedResponse}\n\n*[cancelled]*`.trim() : enhancedResponse,
         metadata: { 
           providers: providers.filter((p: ProviderConfig) => p.enabled).map((p: ProviderConfig) => p.id),
-          tokenUsage
+          tokenUsage,
+          ...(budgetExceeded ? { budgetExceeded } : {}),
+          ...(cancelled ? { cancelled: true } : {})
         },
       });
 
@@ -280,24 +420,39 @@ export async function registerRoutes(
           content: step.content,
           inputTokens: step.tokenUsage?.inputTokens ?? null,
           outputTokens: step.tokenUsage?.outputTokens ?? null,
+          cost: step.cost ?? null,
         });
       }
 
       const messages = await storage.getMessages(req.params.id);
-      if (messages.length === 2) {
-        const title = await orchestrator.generateTitle(message);
+      if (messages.length === 2 && !cancelled) {
+        const backgroundUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+        const title = await orchestrator.generateTitle(message, signal, (usage) => addUsage(backgroundUsage, usage));
         await storage.updateConversation(req.params.id, { title });
+        await recordBackgroundUsage(assistantMessage, backgroundUsage);
       }
 
+      if (cancelled) {
+        res.write(`data: ${JSON.stringify({ type: "cancelled", messageId: assistantMessage.id })}\n\n`);
+      }
       res.write(`data: ${JSON.stringify({ type: "done", messageId: assistantMessage.id })}\n\n`);
       res.end();
     } catch (error) {
       console.error("Error solving task:", error);
       res.write(`data: ${JSON.stringify({ type: "error", error: "Failed to process request" })}\n\n`);
       res.end();
+    } finally {
+      if (run) finishRun(run.id);
     }
   });
 
+  app.post("/api/runs/:id/cancel", async (req, res) => {
+    if (!cancelRun(req.params.id)) {
+      return res.status(404).json({ error: "Run not found or already finished" });
+    }
+    res.json({ success: true });
+  });
+
   app.get("/api/messages/:id/reasoning", async (req, res) => {
     try {
       const steps = await storage.getReasoningSteps(req.params.id);
@@ -334,7 +489,8 @@ export async function registerRoutes(
         const existingSettings = await storage.getSettings();
         const storedProviders = (existingSettings?.providers as ProviderConfig[]) || [];
         
-        data.providers = data.providers.map((p: any) => {
+        // Stored keys stay encrypted; new or changed keys are encrypted here
+        data.providers = encryptProviderSecrets(data.providers.map((p: any) => {
           if (p.isCustom && p.apiKey === "••••••••") {
             const stored = storedProviders.find((sp: any) => sp.id === p.id);
             if (stored?.apiKey) {
@@ -342,7 +498,7 @@ export async function registerRoutes(
             }
           }
           return p;
-        });
+        }));
       }
       
       const settings = await storage.updateSettings(data);
@@ -362,12 +518,68 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/providers/local/models", async (req, res) => {
+    try {
+      const baseUrl = req.query.baseUrl;
+      if (!baseUrl || typeof baseUrl !== "string") {
+        return res.status(400).json({ error: "baseUrl is required" });
+      }
+      const models = await listLocalModels(baseUrl);
+      res.json(models);
+    } catch (error: any) {
+      if (error instanceof EndpointNotAllowedError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error discovering local models:", error);
+      res.status(502).json({ error: error.message || "Failed to reach local model server" });
+    }
+  });
+
+  app.post("/api/providers/test", async (req, res) => {
+    try {
+      const provider = req.body?.provider as ProviderConfig | undefined;
+      if (!provider || !provider.id || !provider.model) {
+        return res.status(400).json({ error: "provider with id and model is required" });
+      }
+      const [merged] = await mergeProviderApiKeys([provider]);
+      if (merged.baseUrl) {
+        await assertAllowedEndpoint(merged.baseUrl, { allowPublic: true });
+      }
+      const result = await testProvider(merged);
+      if (result.usage) recordProbeUsage("provider_test", merged, result.usage);
+      res.json(recordHealth(merged, result));
+    } catch (error: any) {
+      if (error instanceof EndpointNotAllowedError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error testing provider:", error);
+      res.status(500).json({ error: error.message || "Failed to test provider" });
+    }
+  });
+
+  app.get("/api/providers/health", async (req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      const providers = decryptProviderSecrets((settings?.providers as ProviderConfig[]) || []);
+      const health = await getProviderHealth(
+        providers,
+        req.query.refresh === "true" ? HEALTH_MIN_REFRESH_MS : undefined,
+        (provider, usage) => recordProbeUsage("health_probe", provider, usage)
+      );
+      res.json(health);
+    } catch (error) {
+      console.error("Error checking provider health:", error);
+      res.status(500).json({ error: "Failed to check provider health" });
+    }
+  });
+
   app.post("/api/conversations/:id/chat", async (req, res) => {
     const SLIDING_WINDOW_SIZE = 10;
     const SUMMARY_TRIGGER_COUNT = 6;
+    let run: ActiveRun | null = null;
     
     try {
-      const { message, providers, attachments } = req.body;
+      const { message, providers, attachments, computeBudget } = req.body;
       
       if (!message || !providers) {
         return res.status(400).json({ error: "Message and providers required" });
@@ -377,6 +589,17 @@ export async function registerRoutes(
       res.setHeader("Cache-Control", "no-cache");
       res.setHeader("Connection", "keep-alive");
 
+      // Abort every expert, sandbox and follow-up job if the browser goes away
+      const activeRun = startRun(req.params.id);
+      run = activeRun;
+      const signal = activeRun.controller.signal;
+      res.on("close", () => {
+        if (!res.writableEnded) {
+          cancelRun(activeRun.id, "Client disconnected");
+        }
+      });
+      res.write(`data: ${JSON.stringify({ type: "run_started", runId: activeRun.id })}\n\n`);
+
       await storage.createMessage({
         conversationId: req.params.id,
         role: "user",
@@ -420,32 +643,66 @@ export async function registerRoutes(
       }
 
       const settings = await storage.getSettings();
-      const consensusMode = (settings?.consensusMode as "auto" | "exact" | "semantic") || "auto";
+      const consensusMode = (settings?.consensusMode as ConsensusMode) || "auto";
+      
+      let budgetExceeded: BudgetExceeded | null = null;
+      const budget = await createRequestBudget(settings, req.params.id, computeBudget, (info) => {
+        budgetExceeded = info;
+        res.write(`data: ${JSON.stringify({ type: "budget_exceeded", budget: info })}\n\n`);
+      });
       
       const mergedProviders = await mergeProviderApiKeys(providers as ProviderConfig[]);
-      const orchestrator = new PoetiqOrchestrator(mergedProviders, consensusMode);
+      const orchestrator = new PoetiqOrchestrator(mergedProviders, consensusMode, budget, orchestratorOptions(settings, computeBudget));
       let fullResponse = "";
       let stepNumber = 0;
-      const pendingSteps: Array<{ provider: string; model: string; action: string; content: string; stepNumber: number; tokenUsage?: { inputTokens: number; outputTokens: number } }> = [];
+      const pendingSteps: Array<{ provider: string; model: string; action: string; content: string; stepNumber: number; tokenUsage?: TokenUsage; cost?: number }> = [];
       let tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
 
-      for await (const chunk of orchestrator.solveTask(
-        conversationHistory.length > 0 ? conversationHistory : message,
-        (step) => {
-          stepNumber++;
-          const stepData = { ...step, stepNumber };
-          pendingSteps.push(stepData);
-          res.write(`data: ${JSON.stringify({ 
-            type: "reasoning_step", 
-            step: stepData 
-          })}\n\n`);
-        },
-        (usage) => {
-          tokenUsage = usage;
+      try {
+        for await (const chunk of orchestrator.solveTask(
+          conversationHistory.length > 0 ? conversationHistory : message,
+          (step) => {
+            stepNumber++;
+            const stepData = { ...step, cost: stepCost(step), stepNumber };
+            pendingSteps.push(stepData);
+            res.write(`data: ${JSON.stringify({ 
+              type: "reasoning_step", 
+              step: stepData 
+            })}\n\n`);
+          },
+          (usage) => {
+            tokenUsage = usage;
+          },
+          signal,
+          (event) => {
+            res.write(`data: ${JSON.stringify({ type: "expert_event", event })}\n\n`);
+          }
+        )) {
+          fullResponse += chunk;
+          res.write(`data: ${JSON.stringify({ type: "content", content: chunk })}\n\n`);
         }
-      )) {
-        fullResponse += chunk;
-        res.write(`data: ${JSON.stringify({ type: "content", content: chunk })}\n\n`);
+      } catch (error) {
+        if (!signal.aborted) throw error;
+      }
+
+      const cancelled = signal.aborted;
+      if (cancelled) {
+        // The orchestrator reports usage when it finishes, which a cancelled
+        // run may not reach; the budget has every call that completed
+        const completedUsage = budget.totalUsage;
+        if (completedUsage.inputTokens + completedUsage.outputTokens > tokenUsage.inputTokens + tokenUsage.outputTokens) {
+          tokenUsage = completedUsage;
+        }
+        stepNumber++;
+        const cancelStep = {
+          provider: "orchestrator",
+          model: "run-control",
+          action: "cancelled",
+          content: `Run cancelled: ${(signal.reason as Error)?.message || "Cancelled"}. Partial output saved.`,
+          stepNumber
+        };
+        pendingSteps.push(cancelStep);
+        res.write(`data: ${JSON.stringify({ type: "reasoning_step", step: cancelStep })}\n\n`);
       }
 
       const { review, enhancedResponse } = parsePoetiqResponse(fullResponse);
@@ -471,10 +728,12 @@ export async function registerRoutes(
       const assistantMessage = await storage.createMessage({
         conversationId: req.params.id,
         role: "assistant",
-        content: enhancedResponse,
+        content: cancelled ? `${enhancedResponse}\n\n*[cancelled]*`.trim() : enhancedResponse,
         metadata: { 
           providers: providers.filter((p: ProviderConfig) => p.enabled).map((p: ProviderConfig) => p.id),
-          tokenUsage
+          tokenUsage,
+          ...(budgetExceeded ? { budgetExceeded } : {}),
+          ...(cancelled ? { cancelled: true } : {})
         },
       });
 
@@ -488,13 +747,15 @@ export async function registerRoutes(
           content: step.content,
           inputTokens: step.tokenUsage?.inputTokens ?? null,
           outputTokens: step.tokenUsage?.outputTokens ?? null,
+          cost: step.cost ?? null,
         });
       }
 
       const allMessages = await storage.getMessages(req.params.id);
+      const backgroundUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
       
-      if (allMessages.length === 2) {
-        const title = await orchestrator.generateTitle(message);
+      if (allMessages.length === 2 && !cancelled) {
+        const title = await orchestrator.generateTitle(message, signal, (usage) => addUsage(backgroundUsage, usage));
         await storage.updateConversation(req.params.id, { title });
       }
 
@@ -502,7 +763,7 @@ export async function registerRoutes(
       const messagesSinceLastSummary = allMessages.length - lastSummaryCount;
       const turnsSinceLastSummary = Math.floor(messagesSinceLastSummary / 2);
       
-      if (turnsSinceLastSummary >= SUMMARY_TRIGGER_COUNT && allMessages.length > SLIDING_WINDOW_SIZE) {
+      if (!cancelled && turnsSinceLastSummary >= SUMMARY_TRIGGER_COUNT && allMessages.length > SLIDING_WINDOW_SIZE) {
         const messagesToSummarize = allMessages.slice(0, -SLIDING_WINDOW_SIZE);
         const summaryContent = messagesToSummarize.map(m => 
           `${m.role === "user" ? "User" : "Assistant"}: ${m.content.slice(0, 500)}${m.content.length > 500 ? "..." : ""}`
@@ -520,23 +781,32 @@ ${summaryContent}
 Provide a concise summary (2-3 paragraphs max):`;
 
         try {
-          const summary = await orchestrator.generateSummary(summaryPrompt);
-          await storage.upsertConversationSummary({
-            conversationId: req.params.id,
-            summary,
-            messageCount: allMessages.length,
-          });
+          const summary = await orchestrator.generateSummary(summaryPrompt, signal, (usage) => addUsage(backgroundUsage, usage));
+          // Skipped or failed summaries keep the previous one
+          if (summary) {
+            await storage.upsertConversationSummary({
+              conversationId: req.params.id,
+              summary,
+              messageCount: allMessages.length,
+            });
+          }
         } catch (summaryError) {
           console.error("Error generating summary:", summaryError);
         }
       }
+      await recordBackgroundUsage(assistantMessage, backgroundUsage);
 
+      if (cancelled) {
+        res.write(`data: ${JSON.stringify({ type: "cancelled", messageId: assistantMessage.id })}\n\n`);
+      }
       res.write(`data: ${JSON.stringify({ type: "done", messageId: assistantMessage.id })}\n\n`);
       res.end();
     } catch (error) {
       console.error("Error in chat:", error);
       res.write(`data: ${JSON.stringify({ type: "error", error: "Failed to process request" })}\n\n`);
       res.end();
+    } finally {
+      if (run) finishRun(run.id);
     }
   });
 
@@ -0,0 +1,186 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from "crypto";
+import type { ProviderConfig } from "./llm/providers";
+
+// Envelope encryption for secrets stored in the database. Each value gets its
+// own random data key (AES-256-GCM); the data key is wrapped with the server
+// master key from SECRETS_MASTER_KEY. Rotating the master key only re-wraps
+// the data keys: put the old key in SECRETS_PREVIOUS_MASTER_KEYS
+// (comma-separated) and run `npm run secrets:migrate`.
+//
+// Stored format: enc:v1:<master key id>:<wrapped data key>:<iv>:<tag>:<ciphertext>
+
+const PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+export class SecretDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretDecryptionError";
+  }
+}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+// Accepts a base64-encoded 32-byte key or any passphrase, which is stretched
+// with scrypt.
+function parseMasterKey(value: string): MasterKey {
+  const trimmed = value.trim();
+  const decoded = Buffer.from(trimmed, "base64");
+  const key = decoded.length === KEY_BYTES && decoded.toString("base64") === trimmed
+    ? decoded
+    : scryptSync(trimmed, "poetiq-secrets", KEY_BYTES);
+  return { id: createHash("sha256").update(key).digest("hex").slice(0, 8), key };
+}
+
+function loadMasterKeys(): { current: MasterKey | null; all: Map<string, MasterKey> } {
+  const all = new Map<string, MasterKey>();
+  const current = process.env.SECRETS_MASTER_KEY ? parseMasterKey(process.env.SECRETS_MASTER_KEY) : null;
+  if (current) all.set(current.id, current);
+  for (const value of (process.env.SECRETS_PREVIOUS_MASTER_KEYS || "").split(",")) {
+    if (!value.trim()) continue;
+    const previous = parseMasterKey(value);
+    if (!all.has(previous.id)) all.set(previous.id, previous);
+  }
+  return { current, all };
+}
+
+let warnedMissingKey = false;
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function wrapDataKey(master: MasterKey, dataKey: Buffer): string {
+  const { iv, tag, ciphertext } = seal(master.key, dataKey);
+  return Buffer.concat([iv, tag, ciphertext]).toString("base64url");
+}
+
+function unwrapDataKey(master: MasterKey, wrapped: string): Buffer {
+  const raw = Buffer.from(wrapped, "base64url");
+  return open(master.key, raw.subarray(0, IV_BYTES), raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES), raw.subarray(IV_BYTES + TAG_BYTES));
+}
+
+interface ParsedSecret {
+  keyId: string;
+  wrappedKey: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+function parseSecret(value: string): ParsedSecret {
+  const parts = value.slice(PREFIX.length).split(":");
+  if (parts.length !== 5) throw new SecretDecryptionError("Malformed encrypted secret");
+  const [keyId, wrappedKey, iv, tag, ciphertext] = parts;
+  return { keyId, wrappedKey, iv, tag, ciphertext };
+}
+
+export function isEncryptedSecret(value: string | undefined): boolean {
+  return !!value && value.startsWith(PREFIX);
+}
+
+export function hasMasterKey(): boolean {
+  return !!process.env.SECRETS_MASTER_KEY;
+}
+
+// Without a master key secrets stay in plain text (with a warning), so local
+// development keeps working.
+export function encryptSecret(plaintext: string): string {
+  const { current } = loadMasterKeys();
+  if (!current) {
+    if (!warnedMissingKey) {
+      console.warn("[secrets] SECRETS_MASTER_KEY is not set; provider API keys are stored unencrypted");
+      warnedMissingKey = true;
+    }
+    return plaintext;
+  }
+
+  const dataKey = randomBytes(KEY_BYTES);
+  const { iv, tag, ciphertext } = seal(dataKey, Buffer.from(plaintext, "utf8"));
+  return PREFIX + [
+    current.id,
+    wrapDataKey(current, dataKey),
+    iv.toString("base64url"),
+    tag.toString("base64url"),
+    ciphertext.toString("base64url"),
+  ].join(":");
+}
+
+// Plain-text values (rows written before encryption) pass through unchanged.
+export function decryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) return value;
+
+  const secret = parseSecret(value);
+  const master = loadMasterKeys().all.get(secret.keyId);
+  if (!master) {
+    throw new SecretDecryptionError(`No master key with id ${secret.keyId} is configured`);
+  }
+
+  try {
+    const dataKey = unwrapDataKey(master, secret.wrappedKey);
+    return open(
+      dataKey,
+      Buffer.from(secret.iv, "base64url"),
+      Buffer.from(secret.tag, "base64url"),
+      Buffer.from(secret.ciphertext, "base64url")
+    ).toString("utf8");
+  } catch {
+    throw new SecretDecryptionError(`Secret could not be decrypted with master key ${secret.keyId}`);
+  }
+}
+
+// True for plain-text values and for values wrapped by a previous master key.
+export function needsReencryption(value: string): boolean {
+  const { current } = loadMasterKeys();
+  if (!current) return false;
+  return !isEncryptedSecret(value) || parseSecret(value).keyId !== current.id;
+}
+
+// Encrypts plain text, and re-wraps the data key of values sealed with a
+// previous master key; the ciphertext itself is left untouched.
+export function reencryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) return encryptSecret(value);
+  if (!needsReencryption(value)) return value;
+
+  const { current, all } = loadMasterKeys();
+  const secret = parseSecret(value);
+  const previous = all.get(secret.keyId);
+  if (!current || !previous) {
+    throw new SecretDecryptionError(`No master key with id ${secret.keyId} is configured`);
+  }
+  const dataKey = unwrapDataKey(previous, secret.wrappedKey);
+  return PREFIX + [current.id, wrapDataKey(current, dataKey), secret.iv, secret.tag, secret.ciphertext].join(":");
+}
+
+export function encryptProviderSecrets(providers: ProviderConfig[]): ProviderConfig[] {
+  return providers.map(p => (p.apiKey ? { ...p, apiKey: reencryptSecret(p.apiKey) } : p));
+}
+
+// A key that cannot be decrypted is dropped (and logged) so one bad row does
+// not take down every request.
+export function decryptProviderSecrets(providers: ProviderConfig[]): ProviderConfig[] {
+  return providers.map(p => {
+    if (!p.apiKey) return p;
+    try {
+      return { ...p, apiKey: decryptSecret(p.apiKey) };
+    } catch (error: any) {
+      console.error(`[secrets] Failed to decrypt API key for provider ${p.id}: ${error.message}`);
+      return { ...p, apiKey: undefined };
+    }
+  });
+}
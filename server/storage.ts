@@ -11,15 +11,58 @@ import {
   type InsertConversationSummary,
   type Attachment,
   type InsertAttachment,
+  type CostTotals,
+  type DailyCost,
+  type InsertBackgroundUsage,
   conversations,
   messages,
   reasoningSteps,
   settings,
   conversationSummaries,
   attachments,
+  backgroundUsage,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, and, gte, sql } from "drizzle-orm";
+
+// Days for the cost report and the per-day cap start at UTC midnight
+export function startOfUtcDay(daysAgo = 0): Date {
+  const day = new Date();
+  day.setUTCHours(0, 0, 0, 0);
+  day.setUTCDate(day.getUTCDate() - daysAgo);
+  return day;
+}
+
+// Cost and token totals live in each assistant message's metadata:
+// tokenUsage for the answer and backgroundUsage for the title and summary
+// calls made after it.
+function sumUsage(field: "cost" | "inputTokens" | "outputTokens") {
+  const key = sql.raw(`'${field}'`);
+  return sql<number>`coalesce(sum(coalesce((${messages.metadata}->'tokenUsage'->>${key})::float8, 0) + coalesce((${messages.metadata}->'backgroundUsage'->>${key})::float8, 0)), 0)`.mapWith(Number);
+}
+
+const costTotalsColumns = {
+  cost: sumUsage("cost"),
+  inputTokens: sumUsage("inputTokens"),
+  outputTokens: sumUsage("outputTokens"),
+  messageCount: sql<number>`count(*)`.mapWith(Number),
+};
+
+// Usage recorded outside any message, e.g. health probes
+const backgroundTotalsColumns = {
+  cost: sql<number>`coalesce(sum(${backgroundUsage.cost}), 0)`.mapWith(Number),
+  inputTokens: sql<number>`coalesce(sum(${backgroundUsage.inputTokens}), 0)`.mapWith(Number),
+  outputTokens: sql<number>`coalesce(sum(${backgroundUsage.outputTokens}), 0)`.mapWith(Number),
+};
+
+function addBackgroundTotals(totals: CostTotals, background: Omit<CostTotals, "messageCount">): CostTotals {
+  return {
+    ...totals,
+    cost: Math.round((totals.cost + background.cost) * 1e8) / 1e8,
+    inputTokens: totals.inputTokens + background.inputTokens,
+    outputTokens: totals.outputTokens + background.outputTokens,
+  };
+}
 
 export interface IStorage {
   getConversations(): Promise<Conversation[]>;
@@ -30,6 +73,7 @@ export interface IStorage {
   
   getMessages(conversationId: string): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
+  updateMessage(id: string, updates: Partial<InsertMessage>): Promise<Message | undefined>;
   
   getReasoningSteps(messageId: string): Promise<ReasoningStep[]>;
   createReasoningStep(step: InsertReasoningStep): Promise<ReasoningStep>;
@@ -43,6 +87,11 @@ export interface IStorage {
   createAttachment(attachment: InsertAttachment): Promise<Attachment>;
   getAttachmentsByMessage(messageId: string): Promise<Attachment[]>;
   updateAttachmentMessage(attachmentId: string, messageId: string): Promise<Attachment | undefined>;
+  
+  getConversationCost(conversationId: string): Promise<CostTotals>;
+  getDailyCosts(days: number): Promise<DailyCost[]>;
+  getCostSince(since: Date): Promise<CostTotals>;
+  recordBackgroundUsage(usage: InsertBackgroundUsage): Promise<void>;
 }
 
 export class PostgresStorage implements IStorage {
@@ -85,6 +134,14 @@ export class PostgresStorage implements IStorage {
     return result[0];
   }
 
+  async updateMessage(id: string, updates: Partial<InsertMessage>): Promise<Message | undefined> {
+    const result = await db.update(messages)
+      .set(updates)
+      .where(eq(messages.id, id))
+      .returning();
+    return result[0];
+  }
+
   async getReasoningSteps(messageId: string): Promise<ReasoningStep[]> {
     const result = await db.select().from(reasoningSteps)
       .where(eq(reasoningSteps.messageId, messageId))
@@ -157,6 +214,53 @@ export class PostgresStorage implements IStorage {
       .returning();
     return result[0];
   }
+
+  async getConversationCost(conversationId: string): Promise<CostTotals> {
+    const result = await db.select(costTotalsColumns)
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), eq(messages.role, "assistant")));
+    return result[0];
+  }
+
+  async getDailyCosts(days: number): Promise<DailyCost[]> {
+    const day = sql<string>`to_char(${messages.timestamp}, 'YYYY-MM-DD')`;
+    const backgroundDay = sql<string>`to_char(${backgroundUsage.timestamp}, 'YYYY-MM-DD')`;
+    const since = startOfUtcDay(days - 1);
+    const [messageDays, backgroundDays] = await Promise.all([
+      db.select({ date: day, ...costTotalsColumns })
+        .from(messages)
+        .where(and(eq(messages.role, "assistant"), gte(messages.timestamp, since)))
+        .groupBy(day),
+      db.select({ date: backgroundDay, ...backgroundTotalsColumns })
+        .from(backgroundUsage)
+        .where(gte(backgroundUsage.timestamp, since))
+        .groupBy(backgroundDay),
+    ]);
+
+    const byDate = new Map<string, DailyCost>();
+    for (const row of messageDays) byDate.set(row.date, row);
+    for (const { date, ...background } of backgroundDays) {
+      const totals = byDate.get(date) ?? { date, cost: 0, inputTokens: 0, outputTokens: 0, messageCount: 0 };
+      byDate.set(date, { ...addBackgroundTotals(totals, background), date });
+    }
+    return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async getCostSince(since: Date): Promise<CostTotals> {
+    const [messageTotals, backgroundTotals] = await Promise.all([
+      db.select(costTotalsColumns)
+        .from(messages)
+        .where(and(eq(messages.role, "assistant"), gte(messages.timestamp, since))),
+      db.select(backgroundTotalsColumns)
+        .from(backgroundUsage)
+        .where(gte(backgroundUsage.timestamp, since)),
+    ]);
+    return addBackgroundTotals(messageTotals[0], backgroundTotals[0]);
+  }
+
+  async recordBackgroundUsage(usage: InsertBackgroundUsage): Promise<void> {
+    await db.insert(backgroundUsage).values(usage);
+  }
 }
 
 export const storage = new PostgresStorage();
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, jsonb, integer, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -29,6 +29,7 @@ export const reasoningSteps = pgTable("reasoning_steps", {
   content: text("content").notNull(),
   inputTokens: integer("input_tokens"),
   outputTokens: integer("output_tokens"),
+  cost: doublePrecision("cost"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
@@ -36,6 +37,17 @@ export const settings = pgTable("settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   providers: jsonb("providers").notNull(),
   consensusMode: varchar("consensus_mode", { length: 20 }).default("auto").notNull(),
+  // Share of experts (0-1] that must agree to end a run early; null = strict majority
+  consensusQuorum: doublePrecision("consensus_quorum"),
+  // Propose → critique → refine rounds for multi-model runs; 0 = consensus voting
+  refinementRounds: integer("refinement_rounds").default(0).notNull(),
+  // Provider that judges or synthesizes answers in "judge"/"synthesize" mode; null = first expert
+  judgeProviderId: varchar("judge_provider_id"),
+  // Semantic similarity backend: "tfidf" (local) or "embeddings" (provider calls)
+  similarityBackend: varchar("similarity_backend", { length: 20 }).default("tfidf").notNull(),
+  // Semantic clustering threshold in [0, 1] per backend; a missing entry = that backend's default
+  similarityThresholds: jsonb("similarity_thresholds"),
+  spendingLimits: jsonb("spending_limits"),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
@@ -59,6 +71,19 @@ export const attachments = pgTable("attachments", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Paid calls made outside any answer, such as provider health probes; they
+// count toward the daily cost totals alongside message usage
+export const backgroundUsage = pgTable("background_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  source: varchar("source", { length: 50 }).notNull(),
+  providerId: varchar("provider_id"),
+  model: varchar("model", { length: 100 }).notNull(),
+  inputTokens: integer("input_tokens").notNull(),
+  outputTokens: integer("output_tokens").notNull(),
+  cost: doublePrecision("cost").default(0).notNull(),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+});
+
 export const insertConversationSchema = createInsertSchema(conversations).omit({
   id: true,
   createdAt: true,
@@ -90,6 +115,22 @@ export const insertAttachmentSchema = createInsertSchema(attachments).omit({
   createdAt: true,
 });
 
+export const insertBackgroundUsageSchema = createInsertSchema(backgroundUsage).omit({
+  id: true,
+  timestamp: true,
+});
+
+export interface CostTotals {
+  cost: number;
+  inputTokens: number;
+  outputTokens: number;
+  messageCount: number;
+}
+
+export interface DailyCost extends CostTotals {
+  date: string;
+}
+
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type Conversation = typeof conversations.$inferSelect;
 
@@ -107,3 +148,6 @@ export type ConversationSummary = typeof conversationSummaries.$inferSelect;
 
 export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
 export type Attachment = typeof attachments.$inferSelect;
+
+export type InsertBackgroundUsage = z.infer<typeof insertBackgroundUsageSchema>;
+export type BackgroundUsage = typeof backgroundUsage.$inferSelect;